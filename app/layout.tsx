@@ -2,8 +2,8 @@ import type { Metadata } from 'next';
 import './globals.css';
 
 export const metadata: Metadata = {
-  title: 'Dubai Tourism Video Generator',
-  description: 'Generate a 30-second cinematic Dubai tourism video right in your browser.'
+  title: 'Reel Studio',
+  description: 'Build cinematic short reels from templates, your media and your copy, right in your browser.'
 };
 
 export default function RootLayout({
@@ -16,7 +16,7 @@ const VideoStudio = dynamic(() => import('../components/VideoStudio'), {
         boxShadow: '0 30px 80px rgba(15, 23, 42, 0.35)'
       }}
     >
-      <p style={{ fontSize: '1.25rem', opacity: 0.75 }}>Loading Dubai video studio…</p>
+      <p style={{ fontSize: '1.25rem', opacity: 0.75 }}>Loading video studio…</p>
     </div>
   )
 });
@@ -0,0 +1,227 @@
+import { mkdir, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { loadImage, registerFont, type Image } from 'canvas';
+import type { SceneConfig } from '../components/VideoCanvas';
+import {
+  WEB_FONT_FAMILIES,
+  fontFamilies,
+  isGenericFamily,
+  projectFontReferences,
+  webFontStylesheetUrl,
+  type CustomFont
+} from '../utils/fonts';
+import type { ImageSource, MediaSource, VideoMedia } from '../utils/media';
+import { assetIdFromUrl } from '../utils/mediaLibrary';
+import { overlayImageSources } from '../utils/overlays';
+import type { Theme } from '../utils/themes';
+import { findTimelineEntry, type Timeline } from '../utils/timeline';
+import { effectiveTransitionDuration } from '../utils/transitions';
+import { extractFrames, type FfmpegPaths } from './ffmpeg';
+
+type VideoFrames = {
+  media: VideoMedia;
+  start: number;
+  files: string[];
+  loaded: { index: number; image: Image } | null;
+};
+
+const REMOTE_PATTERN = /^(https?|data):/i;
+const FONT_URL_PATTERN = /url\((https:[^)]+)\)/;
+
+// node-canvas images draw like <img> elements, so they stand in for them in the shared frame renderer.
+const asSource = (image: Image) => image as unknown as HTMLImageElement;
+
+// Project files written by the studio may point at local paths (relative to the project file) or URLs.
+// Media library references only exist inside the browser that imported them.
+export function resolveSource(src: string, baseDir: string) {
+  if (assetIdFromUrl(src)) {
+    throw new Error(
+      `"${src}" is stored in a browser media library. Reference the file by path or URL instead.`
+    );
+  }
+  return REMOTE_PATTERN.test(src) ? src : path.resolve(baseDir, src);
+}
+
+async function download(url: string, file: string) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url} returned ${response.status}`);
+  await writeFile(file, Buffer.from(await response.arrayBuffer()));
+  return file;
+}
+
+async function fontFile(font: CustomFont, baseDir: string, tempDir: string) {
+  const source = resolveSource(font.src, baseDir);
+  if (!REMOTE_PATTERN.test(source)) return source;
+  return download(
+    source,
+    path.join(tempDir, `${font.id}${path.extname(new URL(source).pathname) || '.ttf'}`)
+  );
+}
+
+async function webFontFile(family: string, tempDir: string) {
+  const response = await fetch(webFontStylesheetUrl(family));
+  if (!response.ok) throw new Error(`Google Fonts returned ${response.status}`);
+  const url = (await response.text()).match(FONT_URL_PATTERN)?.[1];
+  if (!url) throw new Error('the stylesheet lists no font file');
+  return download(url, path.join(tempDir, `${family.replace(/\W+/g, '-')}${path.extname(url) || '.ttf'}`));
+}
+
+// node-canvas only picks up fonts registered before the first canvas is created, so every family the project
+// names is registered up front. Returns a warning for each family that will fall back.
+export async function registerFonts(
+  scenes: SceneConfig[],
+  theme: Theme,
+  fonts: CustomFont[],
+  baseDir: string,
+  tempDir: string
+) {
+  const warnings: string[] = [];
+  const registered = new Set<string>();
+  const unavailable = new Set<string>();
+  const register = (family: string, file: string) => {
+    registerFont(file, { family });
+    registered.add(family);
+  };
+
+  for (const font of fonts) {
+    try {
+      register(font.family, await fontFile(font, baseDir, tempDir));
+    } catch (caught) {
+      const reason = caught instanceof Error ? caught.message : 'the file is unreadable';
+      warnings.push(`Custom font “${font.family}” could not be loaded: ${reason}.`);
+    }
+  }
+
+  const references = projectFontReferences(scenes, theme);
+  const families = new Set(references.flatMap((reference) => fontFamilies(reference.stack)));
+  for (const family of WEB_FONT_FAMILIES.filter((candidate) => families.has(candidate))) {
+    if (registered.has(family)) continue;
+    try {
+      register(family, await webFontFile(family, tempDir));
+    } catch (caught) {
+      const reason = caught instanceof Error ? caught.message : 'the download failed';
+      warnings.push(
+        `Web font “${family}” could not be downloaded (${reason}), so it renders only if installed.`
+      );
+      unavailable.add(family);
+    }
+  }
+
+  // System fonts cannot be listed from here, so unbundled families are flagged rather than assumed missing.
+  references.forEach(({ label, stack }) => {
+    const [primary] = fontFamilies(stack);
+    if (!primary || isGenericFamily(primary) || registered.has(primary) || unavailable.has(primary)) return;
+    warnings.push(`${label}: “${primary}” is not bundled, so it renders only if installed here.`);
+  });
+  return warnings;
+}
+
+export async function loadLogo(theme: Theme, baseDir: string) {
+  if (!theme.logo?.src) return null;
+  try {
+    return asSource(await loadImage(resolveSource(theme.logo.src, baseDir)));
+  } catch (caught) {
+    const reason = caught instanceof Error ? caught.message : 'it could not be loaded';
+    throw new Error(`Logo watermark: ${reason}`);
+  }
+}
+
+// A logo overlay whose image fails is left out with a warning rather than stopping the render.
+export async function loadOverlayImages(scenes: SceneConfig[], baseDir: string) {
+  const images = new Map<string, ImageSource>();
+  const warnings: string[] = [];
+  const srcs = new Set(scenes.flatMap(({ overlays = [] }) => overlayImageSources(overlays)));
+  await Promise.all(
+    [...srcs].map(async (src) => {
+      try {
+        images.set(src, asSource(await loadImage(resolveSource(src, baseDir))));
+      } catch (caught) {
+        const reason = caught instanceof Error ? caught.message : 'it could not be loaded';
+        warnings.push(`Overlay image “${src}”: ${reason}, so it is left out.`);
+      }
+    })
+  );
+  return { images, warnings };
+}
+
+// Video clips are decoded up front into one image per output frame, covering the scene plus the part of
+// the outgoing transition that still shows it.
+async function extractSceneFrames(
+  paths: FfmpegPaths,
+  timeline: Timeline,
+  index: number,
+  media: VideoMedia,
+  fps: number,
+  baseDir: string,
+  tempDir: string
+) {
+  const { scene, start } = timeline.entries[index];
+  const next = timeline.entries[index + 1]?.scene;
+  const tail = next ? effectiveTransitionDuration(next.transition, scene.duration, next.duration) / 2 : 0;
+  const span = Math.min(scene.duration + tail, (media.out ?? Infinity) - media.in);
+  const directory = path.join(tempDir, `scene-${index + 1}`);
+  await mkdir(directory, { recursive: true });
+  await extractFrames(
+    paths,
+    resolveSource(media.src, baseDir),
+    media.in,
+    span,
+    fps,
+    path.join(directory, '%06d.jpg')
+  );
+  const files = (await readdir(directory)).sort().map((file) => path.join(directory, file));
+  if (files.length === 0) throw new Error('the clip has no frames in its in/out range');
+  return { media, start, files, loaded: null } satisfies VideoFrames;
+}
+
+// Loads every scene's media and returns a lookup for the sources to draw at a given reel time, mirroring
+// `syncVideoSources` in the browser: clips hold their first frame before the scene and their last after.
+// Scenes with a fallback degrade to it with a warning; anything else that fails stops the render.
+export async function loadSceneSources(
+  paths: FfmpegPaths,
+  timeline: Timeline,
+  fps: number,
+  baseDir: string,
+  tempDir: string
+) {
+  const videos = new Map<number, VideoFrames>();
+  const warnings: string[] = [];
+  const sources: MediaSource[] = await Promise.all(
+    timeline.entries.map(async ({ scene, index }) => {
+      const { media } = scene;
+      try {
+        if (media.type !== 'color' && media.type !== 'gradient' && !media.src.trim()) {
+          throw new Error(`no ${media.type} is selected`);
+        }
+        if (media.type === 'image') return asSource(await loadImage(resolveSource(media.src, baseDir)));
+        if (media.type === 'video') {
+          videos.set(index, await extractSceneFrames(paths, timeline, index, media, fps, baseDir, tempDir));
+        }
+        return null;
+      } catch (caught) {
+        const reason = caught instanceof Error ? caught.message : 'it could not be loaded';
+        const label = `Scene ${index + 1} (“${scene.title || 'Untitled scene'}”)`;
+        if (!scene.fallback) throw new Error(`${label}: ${reason}`);
+        warnings.push(`${label}: ${reason}, so its fallback is shown instead.`);
+        if (!scene.fallback.src) return null;
+        return loadImage(resolveSource(scene.fallback.src, baseDir)).then(asSource, () => null);
+      }
+    })
+  );
+
+  const sourcesAt = async (time: number) => {
+    const current = findTimelineEntry(timeline, time).index;
+    // Only the current scene and its transition neighbours can be drawn in this frame.
+    for (const index of [current - 1, current, current + 1]) {
+      const video = videos.get(index);
+      if (!video) continue;
+      const frame = Math.min(video.files.length - 1, Math.round(Math.max(0, time - video.start) * fps));
+      if (video.loaded?.index !== frame) {
+        video.loaded = { index: frame, image: await loadImage(video.files[frame]) };
+      }
+      sources[index] = asSource(video.loaded.image);
+    }
+    return sources;
+  };
+  return { sourcesAt, warnings };
+}
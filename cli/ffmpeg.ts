@@ -0,0 +1,320 @@
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { endianness } from 'node:os';
+import {
+  MIX_SAMPLE_RATE,
+  collectClipAudio,
+  mergeIntervals,
+  placeTrack,
+  type AudioSettings,
+  type AudioTrack
+} from '../utils/audioMix';
+import type { VideoContainer } from '../utils/frameEncoder';
+import type { Timeline } from '../utils/timeline';
+
+export type FfmpegPaths = {
+  ffmpeg: string;
+  ffprobe: string;
+};
+
+export type AudioGraph = {
+  inputs: string[];
+  filter: string;
+};
+
+type ScheduledInput = {
+  track: AudioTrack;
+  input: string;
+  start: number;
+  end: number;
+  offset: number;
+};
+
+// Matches the in-browser WebCodecs output closely enough that the two can be swapped in a pipeline.
+const CONTAINER_ARGS: Record<VideoContainer, string[]> = {
+  mp4: [
+    '-c:v',
+    'libx264',
+    '-preset',
+    'medium',
+    '-crf',
+    '18',
+    '-pix_fmt',
+    'yuv420p',
+    '-movflags',
+    '+faststart'
+  ],
+  webm: ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-pix_fmt', 'yuv420p']
+};
+
+const AUDIO_ARGS: Record<VideoContainer, string[]> = {
+  mp4: ['-c:a', 'aac', '-b:a', '160k'],
+  webm: ['-c:a', 'libopus', '-b:a', '160k']
+};
+
+const STDERR_TAIL = 2000;
+
+function run(command: string, args: string[]) {
+  return new Promise<string>((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', (caught: NodeJS.ErrnoException) =>
+      reject(
+        caught.code === 'ENOENT'
+          ? new Error(`${command} was not found. Install ffmpeg or pass its path.`)
+          : caught
+      )
+    );
+    child.on('close', (code) =>
+      code === 0
+        ? resolve(stdout)
+        : reject(new Error(`${command} failed: ${stderr.slice(-STDERR_TAIL).trim()}`))
+    );
+  });
+}
+
+export async function probeMedia(paths: FfmpegPaths, input: string) {
+  const output = await run(paths.ffprobe, [
+    '-v',
+    'error',
+    '-show_entries',
+    'format=duration:stream=codec_type',
+    '-of',
+    'json',
+    input
+  ]);
+  const parsed = JSON.parse(output) as {
+    format?: { duration?: string };
+    streams?: { codec_type?: string }[];
+  };
+  return {
+    duration: Number(parsed.format?.duration ?? 0),
+    hasAudio: (parsed.streams ?? []).some((stream) => stream.codec_type === 'audio')
+  };
+}
+
+// Keyed by track src like the browser's durations, so transcript captions end when the narration does.
+// Files that cannot be probed are left out and their captions fall back to the scene window.
+export async function probeTrackDurations(
+  paths: FfmpegPaths,
+  tracks: AudioTrack[],
+  resolveInput: (src: string) => string
+) {
+  const entries = await Promise.all(
+    tracks.map(async (track) => {
+      const probe = await probeMedia(paths, resolveInput(track.src)).catch(() => null);
+      return probe && probe.duration > 0 ? [[track.src, probe.duration] as const] : [];
+    })
+  );
+  return new Map(entries.flat());
+}
+
+// Writes the clip's frames from `start` for `span` seconds as a numbered JPEG sequence at the reel's fps.
+export function extractFrames(
+  paths: FfmpegPaths,
+  input: string,
+  start: number,
+  span: number,
+  fps: number,
+  pattern: string
+) {
+  return run(paths.ffmpeg, [
+    '-v',
+    'error',
+    '-ss',
+    `${start}`,
+    '-t',
+    `${span}`,
+    '-i',
+    input,
+    '-vf',
+    `fps=${fps}`,
+    '-q:v',
+    '3',
+    pattern
+  ]);
+}
+
+// Renders AudioParam-style automation as an ffmpeg expression of `t`: values hold before the first point and
+// after the last, ramp linearly between points, and jump where two points share a time.
+function automation(points: Array<[number, number]>) {
+  const format = (value: number) => Number(value.toFixed(4)).toString();
+  let expression = format(points[points.length - 1][1]);
+  for (let index = points.length - 2; index >= 0; index -= 1) {
+    const [fromTime, fromValue] = points[index];
+    const [toTime, toValue] = points[index + 1];
+    if (toTime <= fromTime) continue;
+    const slope = `${format(toValue - fromValue)}*(t-${format(fromTime)})/${format(toTime - fromTime)}`;
+    const segment = fromValue === toValue ? format(fromValue) : `${format(fromValue)}+${slope}`;
+    expression = `if(lt(t,${format(toTime)}),${segment},${expression})`;
+  }
+  return `if(lt(t,${format(points[0][0])}),${format(points[0][1])},${expression})`;
+}
+
+function envelopePoints({ track, start, end }: ScheduledInput): Array<[number, number]> {
+  const length = end - start;
+  const fadeIn = Math.min(track.fadeIn, length / 2);
+  const fadeOut = Math.min(track.fadeOut, length / 2);
+  return [
+    [start, fadeIn > 0 ? 0 : track.volume],
+    [start + fadeIn, track.volume],
+    [end - fadeOut, track.volume],
+    [end, fadeOut > 0 ? 0 : track.volume]
+  ];
+}
+
+// Schedules tracks and unmuted clips the same way `renderAudioMix` does, then expresses the mix as an
+// ffmpeg filter graph. Inputs are numbered from 1 because the raw frame stream is input 0.
+export async function buildAudioGraph(
+  paths: FfmpegPaths,
+  audio: AudioSettings,
+  timeline: Timeline,
+  resolveInput: (src: string) => string
+): Promise<AudioGraph | null> {
+  const { duration } = timeline;
+  const starts = new Map(timeline.entries.map((entry) => [entry.scene.id, entry.start]));
+
+  const trackInputs = await Promise.all(
+    audio.tracks
+      .filter((track) => track.volume > 0 && track.src)
+      .map(async (track): Promise<ScheduledInput | null> => {
+        const anchor = track.sceneId ? starts.get(track.sceneId) : 0;
+        if (anchor === undefined) return null;
+        const input = resolveInput(track.src);
+        const { duration: fileDuration } = await probeMedia(paths, input);
+        const { start, end, offset } = placeTrack(anchor, track, fileDuration, duration);
+        return end > start ? { track, input, start, end, offset } : null;
+      })
+  );
+  // Clips without an audio stream simply stay silent, as they do in the browser.
+  const clipInputs = await Promise.all(
+    collectClipAudio(timeline).map(async (clip): Promise<ScheduledInput | null> => {
+      const input = resolveInput(clip.track.src);
+      const probe = await probeMedia(paths, input).catch(() => null);
+      if (!probe?.hasAudio) return null;
+      const clipOut = Math.min(clip.clipOut ?? probe.duration, probe.duration);
+      const end = Math.min(clip.end, clip.start + clipOut - clip.clipIn);
+      return end > clip.start
+        ? { track: clip.track, input, start: clip.start, end, offset: clip.clipIn }
+        : null;
+    })
+  );
+  const scheduled = [...trackInputs, ...clipInputs].filter((item): item is ScheduledInput => item !== null);
+  if (scheduled.length === 0) return null;
+
+  const inputs = scheduled.flatMap(({ track, input, offset }) => [
+    ...(track.loop ? ['-stream_loop', '-1'] : []),
+    ...(offset > 0 ? ['-ss', `${offset}`] : []),
+    '-i',
+    input
+  ]);
+  const chains = scheduled.map((item, index) => {
+    const delay = Math.round(item.start * 1000);
+    return (
+      `[${index + 1}:a]aformat=sample_rates=${MIX_SAMPLE_RATE}:channel_layouts=stereo,` +
+      `atrim=duration=${item.end - item.start},asetpts=PTS-STARTPTS,adelay=${delay}:all=1,` +
+      `volume=eval=frame:volume='${automation(envelopePoints(item))}'[a${index}]`
+    );
+  });
+
+  const labels = scheduled.map((_item, index) => `[a${index}]`);
+  const music = labels.filter((_label, index) => scheduled[index].track.kind === 'music');
+  const others = labels.filter((_label, index) => scheduled[index].track.kind !== 'music');
+  const narration = scheduled
+    .filter(({ track }) => track.kind === 'narration')
+    .map(({ start, end }): [number, number] => [start, end]);
+  if (music.length > 0) {
+    const ducking: Array<[number, number]> = [[0, 1]];
+    if (audio.ducking.enabled) {
+      for (const [start, end] of mergeIntervals(narration)) {
+        ducking.push(
+          [Math.max(0, start - audio.ducking.ramp), 1],
+          [start, audio.ducking.level],
+          [end, audio.ducking.level],
+          [end + audio.ducking.ramp, 1]
+        );
+      }
+    }
+    chains.push(
+      `${music.join('')}amix=inputs=${music.length}:normalize=0:duration=longest,` +
+        `volume=eval=frame:volume='${automation(ducking)}'[music]`
+    );
+  }
+  const buses = [...(music.length > 0 ? ['[music]'] : []), ...others];
+  chains.push(
+    `${buses.join('')}amix=inputs=${buses.length}:normalize=0:duration=longest,` +
+      `apad,atrim=duration=${duration}[mix]`
+  );
+  return { inputs, filter: chains.join(';') };
+}
+
+// Streams raw canvas frames into ffmpeg over stdin. Cairo stores pixels as native-endian ARGB32.
+export function startEncoder(
+  paths: FfmpegPaths,
+  options: {
+    output: string;
+    container: VideoContainer;
+    width: number;
+    height: number;
+    fps: number;
+    audio: AudioGraph | null;
+  }
+) {
+  const { output, container, width, height, fps, audio } = options;
+  const args = [
+    '-y',
+    '-v',
+    'error',
+    '-f',
+    'rawvideo',
+    '-pix_fmt',
+    endianness() === 'LE' ? 'bgra' : 'argb',
+    '-s',
+    `${width}x${height}`,
+    '-r',
+    `${fps}`,
+    '-i',
+    'pipe:0',
+    ...(audio ? [...audio.inputs, '-filter_complex', audio.filter, '-map', '0:v', '-map', '[mix]'] : []),
+    ...CONTAINER_ARGS[container],
+    ...(audio ? AUDIO_ARGS[container] : []),
+    output
+  ];
+  const child = spawn(paths.ffmpeg, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+  let stderr = '';
+  child.stderr.on('data', (chunk) => (stderr += chunk));
+  const exited = new Promise<void>((resolve, reject) => {
+    child.on('error', (caught: NodeJS.ErrnoException) =>
+      reject(
+        caught.code === 'ENOENT'
+          ? new Error(`${paths.ffmpeg} was not found. Install ffmpeg or pass its path.`)
+          : caught
+      )
+    );
+    child.on('close', (code) =>
+      code === 0 ? resolve() : reject(new Error(`ffmpeg failed: ${stderr.slice(-STDERR_TAIL).trim()}`))
+    );
+  });
+  // Failures surface through write()/finish(); these only stop them being reported as unhandled.
+  exited.catch(() => undefined);
+  child.stdin.on('error', () => undefined);
+
+  return {
+    async write(frame: Buffer) {
+      if (child.exitCode !== null) await exited;
+      if (!child.stdin.write(frame)) {
+        await Promise.race([once(child.stdin, 'drain'), exited]);
+      }
+    },
+    async finish() {
+      child.stdin.end();
+      await exited;
+    },
+    abort() {
+      child.kill('SIGKILL');
+    }
+  };
+}
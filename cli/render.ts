@@ -0,0 +1,142 @@
+// Renders a saved project file to video without a browser, for CI and other unattended pipelines:
+//
+//   npx tsx cli/render.ts reel.json reel.mp4 [--locale fr] [--font "Acme Sans=fonts/acme.woff2"]
+//
+// Needs the `canvas` package and ffmpeg/ffprobe 4.4 or newer on the PATH (or --ffmpeg/--ffprobe).
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { createCanvas } from 'canvas';
+import { buildCaptionCues, transcribedTracks } from '../utils/captions';
+import type { VideoContainer } from '../utils/frameEncoder';
+import { drawFrame } from '../utils/frameRenderer';
+import { isLocaleCode, projectLocales } from '../utils/locales';
+import { parseProject } from '../utils/project';
+import { buildTimeline } from '../utils/timeline';
+import { loadLogo, loadOverlayImages, loadSceneSources, registerFonts, resolveSource } from './assets';
+import { buildAudioGraph, probeTrackDurations, startEncoder, type FfmpegPaths } from './ffmpeg';
+
+const USAGE = `Usage: render <project.json> <output.mp4|output.webm> [options]
+
+Options:
+  --locale <code>        Render the copy in this project locale (default: the base locale)
+  --font <family=file>   Register a font file under a family name; repeatable
+  --ffmpeg <path>        ffmpeg binary (default: ffmpeg)
+  --ffprobe <path>       ffprobe binary (default: ffprobe)
+  --help                 Show this message`;
+
+const CONTAINERS: Record<string, VideoContainer> = { '.mp4': 'mp4', '.webm': 'webm' };
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n`);
+  process.exit(1);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      locale: { type: 'string' },
+      font: { type: 'string', multiple: true },
+      ffmpeg: { type: 'string', default: 'ffmpeg' },
+      ffprobe: { type: 'string', default: 'ffprobe' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  const [projectPath, outputPath] = positionals;
+  if (!projectPath || !outputPath) fail(USAGE);
+  const container = CONTAINERS[path.extname(outputPath).toLowerCase()];
+  if (!container) fail(`The output must end in .mp4 or .webm, not "${path.basename(outputPath)}".`);
+
+  const project = parseProject(await readFile(projectPath, 'utf8'));
+  const timeline = buildTimeline(project.scenes, project.settings.duration);
+  if (timeline.issues.length > 0) fail(`The timeline is invalid:\n${timeline.issues.join('\n')}`);
+
+  const locale = values.locale ?? project.locales.base;
+  if (!isLocaleCode(locale) || !projectLocales(project.locales).includes(locale)) {
+    fail(`"${locale}" is not one of this project's locales (${projectLocales(project.locales).join(', ')}).`);
+  }
+
+  const extraFonts = (values.font ?? []).map((spec, index) => {
+    const separator = spec.indexOf('=');
+    if (separator <= 0) fail(`--font expects "Family=path/to/font", got "${spec}".`);
+    return {
+      id: `cli-font-${index}`,
+      family: spec.slice(0, separator).trim(),
+      src: spec.slice(separator + 1)
+    };
+  });
+
+  const paths: FfmpegPaths = { ffmpeg: values.ffmpeg, ffprobe: values.ffprobe };
+  const baseDir = path.dirname(path.resolve(projectPath));
+  const tempDir = await mkdtemp(path.join(tmpdir(), 'reel-render-'));
+  let encoder: ReturnType<typeof startEncoder> | null = null;
+  try {
+    const warnings = await registerFonts(
+      project.scenes,
+      project.theme,
+      [...project.fonts, ...extraFonts],
+      baseDir,
+      tempDir
+    );
+    warnings.forEach((warning) => process.stderr.write(`Warning: ${warning}\n`));
+
+    const { width, height } = project.settings.resolution;
+    const { fps } = project.settings;
+    const resolveInput = (src: string) => resolveSource(src, baseDir);
+    const { burnIn } = project.captions;
+    const [sceneSources, logo, overlays, audio, trackDurations] = await Promise.all([
+      loadSceneSources(paths, timeline, fps, baseDir, tempDir),
+      loadLogo(project.theme, baseDir),
+      loadOverlayImages(project.scenes, baseDir),
+      buildAudioGraph(paths, project.audio, timeline, resolveInput),
+      burnIn ? probeTrackDurations(paths, transcribedTracks(project.audio), resolveInput) : new Map()
+    ]);
+    const { sourcesAt, warnings: sourceWarnings } = sceneSources;
+    [...sourceWarnings, ...overlays.warnings].forEach((warning) =>
+      process.stderr.write(`Warning: ${warning}\n`)
+    );
+
+    const canvas = createCanvas(width, height);
+    // node-canvas implements the 2D context API the renderer uses; its typings are simply separate.
+    const context = canvas.getContext('2d') as unknown as CanvasRenderingContext2D;
+    const settings = {
+      scenes: project.scenes,
+      timeline,
+      resolution: project.settings.resolution,
+      theme: project.theme,
+      grade: project.grade,
+      captions: project.captions,
+      captionCues: burnIn ? buildCaptionCues(timeline, project.audio, locale, trackDurations) : [],
+      locale
+    };
+
+    encoder = startEncoder(paths, { output: outputPath, container, width, height, fps, audio });
+    const totalFrames = Math.round(timeline.duration * fps);
+    let reported = -1;
+    for (let frameIndex = 0; frameIndex < totalFrames; frameIndex += 1) {
+      const timestampMs = (frameIndex * 1000) / fps;
+      const sources = await sourcesAt(timestampMs / 1000);
+      drawFrame(context, settings, { sources, logo, overlayImages: overlays.images }, timestampMs);
+      await encoder.write(canvas.toBuffer('raw'));
+      const percent = Math.floor(((frameIndex + 1) / totalFrames) * 100);
+      if (percent !== reported) {
+        reported = percent;
+        process.stderr.write(`\rRendering ${percent}% (${frameIndex + 1}/${totalFrames} frames)`);
+      }
+    }
+    await encoder.finish();
+    encoder = null;
+    process.stderr.write(`\nWrote ${outputPath}\n`);
+  } finally {
+    encoder?.abort();
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((caught) => fail(caught instanceof Error ? caught.message : String(caught)));
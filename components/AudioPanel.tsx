@@ -0,0 +1,306 @@
+'use client';
+
+import { useRef, useState, type CSSProperties } from 'react';
+import {
+  createAudioTrack,
+  type AudioSettings,
+  type AudioTrack,
+  type AudioTrackKind
+} from '../utils/audioMix';
+import type { SceneConfig } from './VideoCanvas';
+
+type AudioPanelProps = {
+  audio: AudioSettings;
+  scenes: SceneConfig[];
+  disabled?: boolean;
+  onChange: (audio: AudioSettings) => void;
+};
+
+const fieldStyle: CSSProperties = {
+  width: '100%',
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(241, 245, 249, 0.92)',
+  border: '1px solid rgba(148, 163, 184, 0.25)',
+  borderRadius: '10px',
+  padding: '0.45rem 0.65rem',
+  fontSize: '0.85rem',
+  fontFamily: 'inherit'
+};
+
+const labelStyle: CSSProperties = {
+  display: 'grid',
+  gap: '0.3rem',
+  fontSize: '0.72rem',
+  letterSpacing: '0.06em',
+  textTransform: 'uppercase',
+  color: 'rgba(148, 163, 184, 0.85)'
+};
+
+const ghostButtonStyle: CSSProperties = {
+  background: 'transparent',
+  color: 'rgba(203, 213, 225, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.35rem 0.85rem',
+  fontSize: '0.8rem',
+  cursor: 'pointer'
+};
+
+const KIND_LABELS: Record<AudioTrackKind, string> = {
+  music: 'Music bed',
+  narration: 'Narration'
+};
+
+export default function AudioPanel({ audio, scenes, disabled = false, onChange }: AudioPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [url, setUrl] = useState('');
+
+  const updateTrack = (id: string, patch: Partial<AudioTrack>) => {
+    onChange({
+      ...audio,
+      tracks: audio.tracks.map((track) => (track.id === id ? { ...track, ...patch } : track))
+    });
+  };
+
+  const addTrack = (track: AudioTrack) => {
+    onChange({ ...audio, tracks: [...audio.tracks, track] });
+  };
+
+  const removeTrack = (id: string) => {
+    onChange({ ...audio, tracks: audio.tracks.filter((track) => track.id !== id) });
+  };
+
+  const numberField = (
+    track: AudioTrack,
+    key: 'offset' | 'fadeIn' | 'fadeOut',
+    label: string,
+    min?: number
+  ) => (
+    <label style={labelStyle}>
+      {label}
+      <input
+        type="number"
+        step={0.1}
+        min={min}
+        value={track[key]}
+        disabled={disabled}
+        onChange={(event) => {
+          const value = Number(event.target.value);
+          if (Number.isFinite(value) && (min === undefined || value >= min)) {
+            updateTrack(track.id, { [key]: value });
+          }
+        }}
+        style={fieldStyle}
+      />
+    </label>
+  );
+
+  return (
+    <div style={{ display: 'grid', gap: '1rem' }}>
+      {audio.tracks.length === 0 && (
+        <p style={{ margin: 0, color: 'rgba(148, 163, 184, 0.75)', fontSize: '0.9rem' }}>
+          No audio yet — exports are silent. Add a music bed or per-scene narration below.
+        </p>
+      )}
+
+      {audio.tracks.map((track) => (
+        <div
+          key={track.id}
+          style={{
+            display: 'grid',
+            gap: '0.75rem',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))',
+            alignItems: 'end',
+            background: 'rgba(30, 41, 59, 0.4)',
+            borderRadius: '16px',
+            padding: '0.9rem 1.1rem',
+            border: '1px solid rgba(59, 130, 246, 0.15)'
+          }}
+        >
+          <label style={{ ...labelStyle, gridColumn: 'span 2' }}>
+            Name
+            <input
+              value={track.name}
+              disabled={disabled}
+              onChange={(event) => updateTrack(track.id, { name: event.target.value })}
+              style={fieldStyle}
+            />
+          </label>
+          <label style={labelStyle}>
+            Kind
+            <select
+              value={track.kind}
+              disabled={disabled}
+              onChange={(event) => updateTrack(track.id, { kind: event.target.value as AudioTrackKind })}
+              style={fieldStyle}
+            >
+              {(Object.keys(KIND_LABELS) as AudioTrackKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {KIND_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            Starts at
+            <select
+              value={track.sceneId ?? ''}
+              disabled={disabled}
+              onChange={(event) => updateTrack(track.id, { sceneId: event.target.value || undefined })}
+              style={fieldStyle}
+            >
+              <option value="">Start of reel</option>
+              {scenes.map((scene) => (
+                <option key={scene.id} value={scene.id}>
+                  {scene.title || 'Untitled scene'}
+                </option>
+              ))}
+            </select>
+          </label>
+          {numberField(track, 'offset', 'Offset (s)')}
+          <label style={labelStyle}>
+            Volume {Math.round(track.volume * 100)}%
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={track.volume}
+              disabled={disabled}
+              onChange={(event) => updateTrack(track.id, { volume: Number(event.target.value) })}
+            />
+          </label>
+          {numberField(track, 'fadeIn', 'Fade in (s)', 0)}
+          {numberField(track, 'fadeOut', 'Fade out (s)', 0)}
+          <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+            <input
+              type="checkbox"
+              checked={track.loop}
+              disabled={disabled}
+              onChange={(event) => updateTrack(track.id, { loop: event.target.checked })}
+            />
+            Loop
+          </label>
+          {track.kind === 'narration' && (
+            <label style={{ ...labelStyle, gridColumn: '1 / -1' }}>
+              Transcript (for captions)
+              <textarea
+                value={track.transcript ?? ''}
+                disabled={disabled}
+                rows={2}
+                placeholder="What the narrator says; leave empty to caption the on-screen text instead."
+                onChange={(event) => updateTrack(track.id, { transcript: event.target.value || undefined })}
+                style={{ ...fieldStyle, resize: 'vertical' }}
+              />
+            </label>
+          )}
+          <div>
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => removeTrack(track.id)}
+              style={ghostButtonStyle}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center' }}>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => fileInputRef.current?.click()}
+          style={ghostButtonStyle}
+        >
+          + Add audio file
+        </button>
+        <input
+          value={url}
+          disabled={disabled}
+          placeholder="…or paste an audio URL"
+          onChange={(event) => setUrl(event.target.value)}
+          style={{ ...fieldStyle, width: 'auto', flex: '1 1 220px' }}
+        />
+        <button
+          type="button"
+          disabled={disabled || url.trim() === ''}
+          onClick={() => {
+            const src = url.trim();
+            addTrack(createAudioTrack(src.split('/').pop() || 'Audio track', src, 'music'));
+            setUrl('');
+          }}
+          style={ghostButtonStyle}
+        >
+          Add URL
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) addTrack(createAudioTrack(file.name, URL.createObjectURL(file), 'music'));
+            event.target.value = '';
+          }}
+        />
+      </div>
+
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          gap: '1rem',
+          alignItems: 'end',
+          borderTop: '1px solid rgba(148, 163, 184, 0.15)',
+          paddingTop: '0.9rem'
+        }}
+      >
+        <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+          <input
+            type="checkbox"
+            checked={audio.ducking.enabled}
+            disabled={disabled}
+            onChange={(event) =>
+              onChange({ ...audio, ducking: { ...audio.ducking, enabled: event.target.checked } })
+            }
+          />
+          Duck music under narration
+        </label>
+        <label style={{ ...labelStyle, minWidth: 160 }}>
+          Ducked level {Math.round(audio.ducking.level * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={audio.ducking.level}
+            disabled={disabled || !audio.ducking.enabled}
+            onChange={(event) =>
+              onChange({ ...audio, ducking: { ...audio.ducking, level: Number(event.target.value) } })
+            }
+          />
+        </label>
+        <label style={{ ...labelStyle, width: 120 }}>
+          Ramp (s)
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={audio.ducking.ramp}
+            disabled={disabled || !audio.ducking.enabled}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              if (Number.isFinite(value) && value >= 0) {
+                onChange({ ...audio, ducking: { ...audio.ducking, ramp: value } });
+              }
+            }}
+            style={fieldStyle}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+import {
+  CAPTION_POSITION_LABELS,
+  captionBlob,
+  type CaptionCue,
+  type CaptionPosition,
+  type CaptionSettings
+} from '../utils/captions';
+import { downloadBlob, slugify } from '../utils/files';
+import { formatSeconds } from '../utils/timeline';
+
+type CaptionsPanelProps = {
+  captions: CaptionSettings;
+  cues: CaptionCue[];
+  projectName: string;
+  disabled?: boolean;
+  onChange: (captions: CaptionSettings) => void;
+};
+
+const fieldStyle: CSSProperties = {
+  width: '100%',
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(241, 245, 249, 0.92)',
+  border: '1px solid rgba(148, 163, 184, 0.25)',
+  borderRadius: '10px',
+  padding: '0.45rem 0.65rem',
+  fontSize: '0.85rem',
+  fontFamily: 'inherit'
+};
+
+const labelStyle: CSSProperties = {
+  display: 'grid',
+  gap: '0.3rem',
+  fontSize: '0.72rem',
+  letterSpacing: '0.06em',
+  textTransform: 'uppercase',
+  color: 'rgba(148, 163, 184, 0.85)'
+};
+
+const ghostButtonStyle: CSSProperties = {
+  background: 'transparent',
+  color: 'rgba(203, 213, 225, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.35rem 0.85rem',
+  fontSize: '0.8rem',
+  cursor: 'pointer'
+};
+
+export default function CaptionsPanel({
+  captions,
+  cues,
+  projectName,
+  disabled = false,
+  onChange
+}: CaptionsPanelProps) {
+  return (
+    <div style={{ display: 'grid', gap: '1rem' }}>
+      <div
+        style={{
+          display: 'grid',
+          gap: '0.9rem',
+          gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))'
+        }}
+      >
+        <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+          <input
+            type="checkbox"
+            checked={captions.burnIn}
+            disabled={disabled}
+            onChange={(event) => onChange({ ...captions, burnIn: event.target.checked })}
+          />
+          Burn into video
+        </label>
+        <label style={labelStyle}>
+          Position
+          <select
+            value={captions.position}
+            disabled={disabled || !captions.burnIn}
+            onChange={(event) => onChange({ ...captions, position: event.target.value as CaptionPosition })}
+            style={fieldStyle}
+          >
+            {(Object.keys(CAPTION_POSITION_LABELS) as CaptionPosition[]).map((position) => (
+              <option key={position} value={position}>
+                {CAPTION_POSITION_LABELS[position]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          Size (px at 720p)
+          <input
+            type="number"
+            min={12}
+            step={1}
+            value={captions.size}
+            disabled={disabled || !captions.burnIn}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              if (Number.isFinite(value) && value > 0) onChange({ ...captions, size: value });
+            }}
+            style={fieldStyle}
+          />
+        </label>
+        <div style={{ display: 'flex', alignItems: 'end', gap: '0.5rem' }}>
+          <button
+            type="button"
+            disabled={cues.length === 0}
+            onClick={() => downloadBlob(captionBlob(cues, 'srt'), `${slugify(projectName)}.srt`)}
+            style={ghostButtonStyle}
+          >
+            Download .srt
+          </button>
+          <button
+            type="button"
+            disabled={cues.length === 0}
+            onClick={() => downloadBlob(captionBlob(cues, 'vtt'), `${slugify(projectName)}.vtt`)}
+            style={ghostButtonStyle}
+          >
+            Download .vtt
+          </button>
+        </div>
+      </div>
+
+      {cues.length === 0 ? (
+        <p style={{ margin: 0, color: 'rgba(148, 163, 184, 0.75)', fontSize: '0.9rem' }}>
+          No captions yet. Add title or subtitle text layers, or a transcript to a narration track.
+        </p>
+      ) : (
+        <ol
+          style={{
+            margin: 0,
+            paddingLeft: '1.2rem',
+            display: 'grid',
+            gap: '0.35rem',
+            maxHeight: 180,
+            overflowY: 'auto',
+            fontSize: '0.85rem',
+            color: 'rgba(203, 213, 225, 0.85)'
+          }}
+        >
+          {cues.map((cue, index) => (
+            <li key={`${cue.start}-${index}`}>
+              <span style={{ color: 'rgba(148, 163, 184, 0.75)', fontVariantNumeric: 'tabular-nums' }}>
+                {formatSeconds(Number(cue.start.toFixed(1)))}s–{formatSeconds(Number(cue.end.toFixed(1)))}s
+              </span>{' '}
+              {cue.text.replace(/\n/g, ' / ')}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
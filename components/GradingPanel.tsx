@@ -0,0 +1,90 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+import {
+  GRADE_ADJUSTMENTS,
+  GRADE_PRESETS,
+  GRADE_PRESET_LABELS,
+  type ColorGrade,
+  type GradePreset
+} from '../utils/grading';
+
+type GradingPanelProps = {
+  grade: ColorGrade;
+  disabled?: boolean;
+  onChange: (grade: ColorGrade) => void;
+};
+
+const fieldStyle: CSSProperties = {
+  width: '100%',
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(241, 245, 249, 0.92)',
+  border: '1px solid rgba(148, 163, 184, 0.25)',
+  borderRadius: '10px',
+  padding: '0.45rem 0.65rem',
+  fontSize: '0.85rem',
+  fontFamily: 'inherit'
+};
+
+const labelStyle: CSSProperties = {
+  display: 'grid',
+  gap: '0.3rem',
+  fontSize: '0.72rem',
+  letterSpacing: '0.06em',
+  textTransform: 'uppercase',
+  color: 'rgba(148, 163, 184, 0.85)'
+};
+
+export default function GradingPanel({ grade, disabled = false, onChange }: GradingPanelProps) {
+  return (
+    <div
+      style={{
+        display: 'grid',
+        gap: '0.9rem',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))'
+      }}
+    >
+      <label style={labelStyle}>
+        Preset
+        <select
+          value=""
+          disabled={disabled}
+          onChange={(event) => {
+            const preset = event.target.value as GradePreset;
+            if (preset) onChange({ ...GRADE_PRESETS[preset] });
+          }}
+          style={fieldStyle}
+        >
+          <option value="" disabled>
+            Apply preset…
+          </option>
+          {(Object.keys(GRADE_PRESET_LABELS) as GradePreset[]).map((preset) => (
+            <option key={preset} value={preset}>
+              {GRADE_PRESET_LABELS[preset]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {(Object.keys(GRADE_ADJUSTMENTS) as Array<keyof ColorGrade>).map((key) => {
+        const { label, min, max } = GRADE_ADJUSTMENTS[key];
+        return (
+          <label key={key} style={labelStyle}>
+            <span style={{ display: 'flex', justifyContent: 'space-between' }}>
+              {label}
+              <span style={{ fontVariantNumeric: 'tabular-nums' }}>{grade[key].toFixed(2)}</span>
+            </span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={0.01}
+              value={grade[key]}
+              disabled={disabled}
+              onChange={(event) => onChange({ ...grade, [key]: Number(event.target.value) })}
+            />
+          </label>
+        );
+      })}
+    </div>
+  );
+}
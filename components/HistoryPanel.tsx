@@ -0,0 +1,96 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+import { canRedo, canUndo, type ProjectHistory } from '../utils/history';
+
+type HistoryPanelProps = {
+  history: ProjectHistory;
+  disabled?: boolean;
+  onMove: (index: number) => void;
+};
+
+const buttonStyle: CSSProperties = {
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(226, 232, 240, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.45rem 1rem',
+  fontSize: '0.85rem',
+  cursor: 'pointer'
+};
+
+const hintStyle: CSSProperties = {
+  fontSize: '0.75rem',
+  color: 'rgba(148, 163, 184, 0.75)'
+};
+
+// Newest first. Entries above the current one are the redo stack and are dimmed until restored.
+export default function HistoryPanel({ history, disabled = false, onMove }: HistoryPanelProps) {
+  const { entries, index } = history;
+  const steps = entries.map((entry, position) => ({ entry, position })).reverse();
+
+  return (
+    <div style={{ display: 'grid', gap: '0.75rem' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.6rem' }}>
+        <button
+          type="button"
+          disabled={disabled || !canUndo(history)}
+          onClick={() => onMove(index - 1)}
+          title={canUndo(history) ? `Undo: ${entries[index].label}` : undefined}
+          style={buttonStyle}
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          disabled={disabled || !canRedo(history)}
+          onClick={() => onMove(index + 1)}
+          title={canRedo(history) ? `Redo: ${entries[index + 1].label}` : undefined}
+          style={buttonStyle}
+        >
+          Redo
+        </button>
+        <span style={hintStyle}>Ctrl+Z to undo, Ctrl+Shift+Z or Ctrl+Y to redo (⌘ on macOS).</span>
+      </div>
+      <ol
+        style={{
+          display: 'grid',
+          gap: '0.2rem',
+          margin: 0,
+          padding: 0,
+          listStyle: 'none',
+          maxHeight: '12rem',
+          overflowY: 'auto'
+        }}
+      >
+        {steps.map(({ entry, position }) => (
+          <li key={entry.id}>
+            <button
+              type="button"
+              disabled={disabled}
+              aria-current={position === index ? 'step' : undefined}
+              onClick={() => onMove(position)}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: '1rem',
+                width: '100%',
+                background: position === index ? 'rgba(56, 189, 248, 0.12)' : 'transparent',
+                color: position > index ? 'rgba(148, 163, 184, 0.55)' : 'rgba(226, 232, 240, 0.85)',
+                border: 'none',
+                borderRadius: '10px',
+                padding: '0.35rem 0.65rem',
+                fontSize: '0.85rem',
+                textAlign: 'left',
+                cursor: 'pointer'
+              }}
+            >
+              <span>{entry.label}</span>
+              <span style={hintStyle}>{new Date(entry.at).toLocaleTimeString()}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+import { LOCALE_LABELS, projectLocales, type LocaleCode, type LocaleSettings } from '../utils/locales';
+
+type LocaleSwitcherProps = {
+  locales: LocaleSettings;
+  active: LocaleCode;
+  disabled?: boolean;
+  onSelect: (locale: LocaleCode) => void;
+  onChange: (locales: LocaleSettings) => void;
+};
+
+const selectStyle: CSSProperties = {
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(241, 245, 249, 0.92)',
+  border: '1px solid rgba(148, 163, 184, 0.25)',
+  borderRadius: '10px',
+  padding: '0.4rem 0.65rem',
+  fontSize: '0.85rem',
+  fontFamily: 'inherit'
+};
+
+const ghostButtonStyle: CSSProperties = {
+  background: 'transparent',
+  color: 'rgba(203, 213, 225, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.35rem 0.85rem',
+  fontSize: '0.8rem',
+  cursor: 'pointer'
+};
+
+// Switches which language the scene text is edited and previewed in, and manages the project's languages.
+export default function LocaleSwitcher({
+  locales,
+  active,
+  disabled = false,
+  onSelect,
+  onChange
+}: LocaleSwitcherProps) {
+  const available = projectLocales(locales);
+  const addable = (Object.keys(LOCALE_LABELS) as LocaleCode[]).filter((code) => !available.includes(code));
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.6rem' }}>
+      <select
+        value={active}
+        disabled={disabled}
+        aria-label="Editing language"
+        onChange={(event) => onSelect(event.target.value as LocaleCode)}
+        style={selectStyle}
+      >
+        {available.map((code) => (
+          <option key={code} value={code}>
+            {LOCALE_LABELS[code]}
+            {code === locales.base ? ' · base' : ''}
+          </option>
+        ))}
+      </select>
+      <select
+        value=""
+        disabled={disabled || addable.length === 0}
+        aria-label="Add a language"
+        onChange={(event) => {
+          const code = event.target.value as LocaleCode;
+          if (!code) return;
+          onChange({ ...locales, additional: [...locales.additional, code] });
+          onSelect(code);
+        }}
+        style={selectStyle}
+      >
+        <option value="" disabled>
+          + Add language…
+        </option>
+        {addable.map((code) => (
+          <option key={code} value={code}>
+            {LOCALE_LABELS[code]}
+          </option>
+        ))}
+      </select>
+      {active !== locales.base && (
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => {
+            onChange({ ...locales, additional: locales.additional.filter((code) => code !== active) });
+            onSelect(locales.base);
+          }}
+          style={ghostButtonStyle}
+        >
+          Remove {LOCALE_LABELS[active]}
+        </button>
+      )}
+    </div>
+  );
+}
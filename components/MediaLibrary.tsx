@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState, type CSSProperties, type DragEvent } from 'react';
+import { createAudioTrack, type AudioTrack } from '../utils/audioMix';
+import { createMedia, type SceneMedia } from '../utils/media';
+import { assetUrl, deleteAsset, importAsset, type AssetKind, type MediaAsset } from '../utils/mediaLibrary';
+import type { SceneConfig } from './VideoCanvas';
+
+type MediaLibraryProps = {
+  assets: MediaAsset[];
+  selectedScene: SceneConfig | null;
+  disabled?: boolean;
+  onAssetsChange: (assets: MediaAsset[]) => void;
+  onUseInScene: (media: SceneMedia) => void;
+  onAddToSoundtrack: (track: AudioTrack) => void;
+  onAddFont: (asset: MediaAsset) => void;
+};
+
+const ghostButtonStyle: CSSProperties = {
+  background: 'transparent',
+  color: 'rgba(203, 213, 225, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.3rem 0.75rem',
+  fontSize: '0.75rem',
+  cursor: 'pointer'
+};
+
+const KIND_ICONS: Record<AssetKind, string> = {
+  image: '🖼',
+  video: '🎬',
+  audio: '♪',
+  font: 'Aa'
+};
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function describeAsset(asset: MediaAsset) {
+  const parts: string[] = [];
+  if (asset.width && asset.height) parts.push(`${asset.width}×${asset.height}`);
+  if (asset.duration !== null && Number.isFinite(asset.duration)) parts.push(`${asset.duration.toFixed(1)}s`);
+  parts.push(formatBytes(asset.size));
+  return parts.join(' · ');
+}
+
+export default function MediaLibrary({
+  assets,
+  selectedScene,
+  disabled = false,
+  onAssetsChange,
+  onUseInScene,
+  onAddToSoundtrack,
+  onAddFont
+}: MediaLibraryProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const thumbnails = useMemo(
+    () =>
+      new Map(
+        assets.flatMap((asset) =>
+          asset.thumbnail ? [[asset.id, URL.createObjectURL(asset.thumbnail)] as const] : []
+        )
+      ),
+    [assets]
+  );
+
+  useEffect(() => {
+    return () => thumbnails.forEach((url) => URL.revokeObjectURL(url));
+  }, [thumbnails]);
+
+  // Files import one at a time so a single bad file is reported without dropping the rest.
+  const importFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setImporting(true);
+    const imported: MediaAsset[] = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        imported.push(await importAsset(file));
+      } catch (caught) {
+        failures.push(caught instanceof Error ? caught.message : `"${file.name}" could not be imported.`);
+      }
+    }
+    setErrors(failures);
+    setImporting(false);
+    if (imported.length > 0) onAssetsChange([...assets, ...imported]);
+  };
+
+  const removeAsset = async (asset: MediaAsset) => {
+    try {
+      await deleteAsset(asset.id);
+      onAssetsChange(assets.filter((candidate) => candidate.id !== asset.id));
+    } catch (caught) {
+      setErrors([caught instanceof Error ? caught.message : `"${asset.name}" could not be removed.`]);
+    }
+  };
+
+  const assignToScene = (asset: MediaAsset) => {
+    if (!selectedScene || asset.kind === 'audio' || asset.kind === 'font') return;
+    const src = assetUrl(asset.id);
+    const current = selectedScene.media;
+    onUseInScene(
+      current.type === asset.kind && 'src' in current
+        ? { ...current, src }
+        : createMedia(asset.kind, { type: 'image', src })
+    );
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (disabled || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    if (!disabled) importFiles(Array.from(event.dataTransfer.files));
+  };
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      style={{
+        display: 'grid',
+        gap: '1rem',
+        padding: '1rem',
+        borderRadius: '18px',
+        border: `1px dashed ${dragging ? 'rgba(56, 189, 248, 0.8)' : 'rgba(148, 163, 184, 0.3)'}`,
+        background: dragging ? 'rgba(14, 165, 233, 0.08)' : 'transparent'
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center' }}>
+        <span style={{ flex: '1 1 auto', fontSize: '0.9rem', color: 'rgba(148, 163, 184, 0.85)' }}>
+          {importing
+            ? 'Importing…'
+            : 'Drop images, video clips, audio or fonts here. Files stay in this browser, never uploaded.'}
+        </span>
+        <button
+          type="button"
+          disabled={disabled || importing}
+          onClick={() => fileInputRef.current?.click()}
+          style={ghostButtonStyle}
+        >
+          + Add files
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,video/*,audio/*,.ttf,.otf,.woff,.woff2"
+          multiple
+          hidden
+          onChange={(event) => {
+            importFiles(Array.from(event.target.files ?? []));
+            event.target.value = '';
+          }}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div role="alert" style={{ fontSize: '0.85rem', color: 'rgba(254, 202, 202, 0.9)' }}>
+          {errors.map((message) => (
+            <p key={message} style={{ margin: 0 }}>
+              {message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {assets.length > 0 && (
+        <div
+          style={{
+            display: 'grid',
+            gap: '0.75rem',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(170px, 1fr))'
+          }}
+        >
+          {assets.map((asset) => {
+            const thumbnail = thumbnails.get(asset.id);
+            return (
+              <div
+                key={asset.id}
+                style={{
+                  display: 'grid',
+                  gap: '0.4rem',
+                  background: 'rgba(30, 41, 59, 0.4)',
+                  borderRadius: '14px',
+                  padding: '0.6rem',
+                  border: '1px solid rgba(59, 130, 246, 0.15)'
+                }}
+              >
+                <div
+                  style={{
+                    aspectRatio: '16 / 9',
+                    borderRadius: '10px',
+                    background: thumbnail
+                      ? `center / cover no-repeat url("${thumbnail}")`
+                      : 'rgba(15, 23, 42, 0.65)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    fontSize: '1.4rem',
+                    color: 'rgba(148, 163, 184, 0.7)'
+                  }}
+                >
+                  {!thumbnail && KIND_ICONS[asset.kind]}
+                </div>
+                <strong
+                  title={asset.name}
+                  style={{
+                    fontSize: '0.8rem',
+                    color: 'rgba(226, 232, 240, 0.9)',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap'
+                  }}
+                >
+                  {asset.name}
+                </strong>
+                <span style={{ fontSize: '0.75rem', color: 'rgba(148, 163, 184, 0.85)' }}>
+                  {describeAsset(asset)}
+                </span>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.4rem' }}>
+                  {asset.kind === 'audio' ? (
+                    <button
+                      type="button"
+                      disabled={disabled}
+                      onClick={() =>
+                        onAddToSoundtrack(createAudioTrack(asset.name, assetUrl(asset.id), 'music'))
+                      }
+                      style={ghostButtonStyle}
+                    >
+                      Add to soundtrack
+                    </button>
+                  ) : asset.kind === 'font' ? (
+                    <button
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => onAddFont(asset)}
+                      style={ghostButtonStyle}
+                    >
+                      Use as font
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      disabled={disabled || !selectedScene}
+                      onClick={() => assignToScene(asset)}
+                      title={selectedScene ? `Use in “${selectedScene.title}”` : 'Select a scene first'}
+                      style={ghostButtonStyle}
+                    >
+                      Use in scene
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    disabled={disabled}
+                    onClick={() => removeAsset(asset)}
+                    style={ghostButtonStyle}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
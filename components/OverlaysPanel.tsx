@@ -0,0 +1,267 @@
+'use client';
+
+import { useState, type CSSProperties } from 'react';
+import {
+  OVERLAY_TYPE_LABELS,
+  createOverlay,
+  overlayQrCode,
+  type OverlayType,
+  type SceneOverlay
+} from '../utils/overlays';
+
+type OverlaysPanelProps = {
+  overlays: SceneOverlay[];
+  disabled?: boolean;
+  onChange: (overlays: SceneOverlay[]) => void;
+};
+
+const fieldStyle: CSSProperties = {
+  width: '100%',
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(241, 245, 249, 0.92)',
+  border: '1px solid rgba(148, 163, 184, 0.25)',
+  borderRadius: '10px',
+  padding: '0.45rem 0.65rem',
+  fontSize: '0.85rem',
+  fontFamily: 'inherit'
+};
+
+const labelStyle: CSSProperties = {
+  display: 'grid',
+  gap: '0.3rem',
+  fontSize: '0.72rem',
+  letterSpacing: '0.06em',
+  textTransform: 'uppercase',
+  color: 'rgba(148, 163, 184, 0.85)'
+};
+
+const ghostButtonStyle: CSSProperties = {
+  background: 'transparent',
+  color: 'rgba(203, 213, 225, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.35rem 0.85rem',
+  fontSize: '0.8rem',
+  cursor: 'pointer'
+};
+
+const hintStyle: CSSProperties = {
+  gridColumn: '1 / -1',
+  margin: 0,
+  fontSize: '0.8rem',
+  color: 'rgba(251, 191, 36, 0.9)'
+};
+
+export default function OverlaysPanel({ overlays, disabled = false, onChange }: OverlaysPanelProps) {
+  const [newType, setNewType] = useState<OverlayType>('callout');
+
+  // Patches are typed loosely because every field below belongs to the overlay type it is rendered for.
+  const update = (id: string, patch: Record<string, unknown>) => {
+    onChange(
+      overlays.map((overlay) => (overlay.id === id ? ({ ...overlay, ...patch } as SceneOverlay) : overlay))
+    );
+  };
+
+  const textField = (overlay: SceneOverlay, key: string, label: string, value: string, wide = false) => (
+    <label style={{ ...labelStyle, ...(wide ? { gridColumn: 'span 2' } : {}) }}>
+      {label}
+      <input
+        value={value}
+        disabled={disabled}
+        dir="auto"
+        onChange={(event) => update(overlay.id, { [key]: event.target.value })}
+        style={fieldStyle}
+      />
+    </label>
+  );
+
+  const slider = (overlay: SceneOverlay, key: string, label: string, value: number) => (
+    <label style={labelStyle}>
+      {label}
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.01}
+        value={value}
+        disabled={disabled}
+        onChange={(event) => update(overlay.id, { [key]: Number(event.target.value) })}
+      />
+    </label>
+  );
+
+  const sizeField = (overlay: SceneOverlay, key: string, label: string, value: number) => (
+    <label style={labelStyle}>
+      {label}
+      <input
+        type="number"
+        min={8}
+        step={1}
+        value={value}
+        disabled={disabled}
+        onChange={(event) => {
+          const next = Number(event.target.value);
+          if (Number.isFinite(next) && next > 0) update(overlay.id, { [key]: next });
+        }}
+        style={fieldStyle}
+      />
+    </label>
+  );
+
+  const fields = (overlay: SceneOverlay) => {
+    switch (overlay.type) {
+      case 'logo':
+        return (
+          <>
+            {textField(overlay, 'src', 'Image URL', overlay.src, true)}
+            {sizeField(overlay, 'width', 'Width (px at 720p)', overlay.width)}
+            {slider(overlay, 'opacity', 'Opacity', overlay.opacity)}
+            {slider(overlay, 'x', 'Centre X', overlay.x)}
+            {slider(overlay, 'y', 'Centre Y', overlay.y)}
+          </>
+        );
+      case 'callout':
+        return (
+          <>
+            {textField(overlay, 'label', 'Label', overlay.label, true)}
+            {slider(overlay, 'x', 'Pin X in picture', overlay.x)}
+            {slider(overlay, 'y', 'Pin Y in picture', overlay.y)}
+          </>
+        );
+      case 'badge':
+        return (
+          <>
+            {textField(overlay, 'text', 'Badge text', overlay.text, true)}
+            {sizeField(overlay, 'size', 'Size (px at 720p)', overlay.size)}
+            <label style={labelStyle}>
+              Colour
+              <input
+                type="color"
+                value={overlay.color}
+                disabled={disabled}
+                onChange={(event) => update(overlay.id, { color: event.target.value })}
+                style={{ ...fieldStyle, padding: '0.2rem', height: '2.4rem' }}
+              />
+            </label>
+            {slider(overlay, 'x', 'Centre X', overlay.x)}
+            {slider(overlay, 'y', 'Centre Y', overlay.y)}
+          </>
+        );
+      case 'lower-third':
+        return (
+          <>
+            {textField(overlay, 'title', 'Title', overlay.title, true)}
+            {textField(overlay, 'subtitle', 'Subtitle', overlay.subtitle, true)}
+          </>
+        );
+      case 'end-card': {
+        const url = overlay.url.trim();
+        return (
+          <>
+            {textField(overlay, 'headline', 'Headline', overlay.headline, true)}
+            {textField(overlay, 'url', 'URL', overlay.url, true)}
+            <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+              <input
+                type="checkbox"
+                checked={overlay.qrCode}
+                disabled={disabled}
+                onChange={(event) => update(overlay.id, { qrCode: event.target.checked })}
+              />
+              Show QR code
+            </label>
+            {overlay.qrCode && url && !overlayQrCode(url) && (
+              <p style={hintStyle}>This URL is too long for a QR code; shorten it to show one.</p>
+            )}
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <div style={{ display: 'grid', gap: '0.75rem' }}>
+      {overlays.map((overlay) => (
+        <div
+          key={overlay.id}
+          style={{
+            display: 'grid',
+            gap: '0.75rem',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))',
+            paddingBottom: '0.75rem',
+            borderBottom: '1px solid rgba(148, 163, 184, 0.12)'
+          }}
+        >
+          <strong style={{ ...labelStyle, gridColumn: '1 / -1', color: 'rgba(226, 232, 240, 0.9)' }}>
+            {OVERLAY_TYPE_LABELS[overlay.type]}
+          </strong>
+          {fields(overlay)}
+          <label style={labelStyle}>
+            Appears at (s)
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={overlay.start}
+              disabled={disabled}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                if (Number.isFinite(value) && value >= 0) update(overlay.id, { start: value });
+              }}
+              style={fieldStyle}
+            />
+          </label>
+          <label style={labelStyle}>
+            Leaves at (s)
+            <input
+              type="number"
+              min={overlay.start}
+              step={0.1}
+              value={overlay.end ?? ''}
+              placeholder="Scene end"
+              disabled={disabled}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                if (event.target.value === '') update(overlay.id, { end: null });
+                else if (Number.isFinite(value) && value > overlay.start) update(overlay.id, { end: value });
+              }}
+              style={fieldStyle}
+            />
+          </label>
+          <div style={{ display: 'flex', alignItems: 'end' }}>
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange(overlays.filter((candidate) => candidate.id !== overlay.id))}
+              style={ghostButtonStyle}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.6rem' }}>
+        <select
+          value={newType}
+          disabled={disabled}
+          aria-label="New overlay type"
+          onChange={(event) => setNewType(event.target.value as OverlayType)}
+          style={{ ...fieldStyle, width: 'auto' }}
+        >
+          {(Object.keys(OVERLAY_TYPE_LABELS) as OverlayType[]).map((type) => (
+            <option key={type} value={type}>
+              {OVERLAY_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange([...overlays, createOverlay(newType)])}
+          style={ghostButtonStyle}
+        >
+          + Add overlay
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+
+type PreviewTransportProps = {
+  currentTime: number;
+  duration: number;
+  fps: number;
+  playing: boolean;
+  loopScene: boolean;
+  disabled?: boolean;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onStep: (frames: number) => void;
+  onToggleLoop: () => void;
+};
+
+const buttonStyle: CSSProperties = {
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(226, 232, 240, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.4rem 0.85rem',
+  fontSize: '0.85rem',
+  cursor: 'pointer',
+  fontVariantNumeric: 'tabular-nums'
+};
+
+function formatTimecode(seconds: number, fps: number) {
+  const wholeSeconds = Math.floor(seconds);
+  const frames = Math.floor((seconds - wholeSeconds) * fps);
+  const minutes = Math.floor(wholeSeconds / 60);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${minutes}:${pad(wholeSeconds % 60)}:${pad(frames)}`;
+}
+
+export default function PreviewTransport({
+  currentTime,
+  duration,
+  fps,
+  playing,
+  loopScene,
+  disabled = false,
+  onTogglePlay,
+  onSeek,
+  onStep,
+  onToggleLoop
+}: PreviewTransportProps) {
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.6rem' }}>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onStep(-1)}
+        aria-label="Previous frame"
+        style={buttonStyle}
+      >
+        ◀︎|
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={onTogglePlay}
+        aria-label={playing ? 'Pause preview' : 'Play preview'}
+        style={{ ...buttonStyle, minWidth: 72 }}
+      >
+        {playing ? 'Pause' : 'Play'}
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onStep(1)}
+        aria-label="Next frame"
+        style={buttonStyle}
+      >
+        |▶︎
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={1 / fps}
+        value={Math.min(currentTime, duration)}
+        disabled={disabled}
+        onChange={(event) => onSeek(Number(event.target.value))}
+        aria-label="Preview position"
+        style={{ flex: '1 1 200px' }}
+      />
+      <span
+        style={{
+          fontSize: '0.85rem',
+          color: 'rgba(203, 213, 225, 0.85)',
+          fontVariantNumeric: 'tabular-nums'
+        }}
+      >
+        {formatTimecode(currentTime, fps)} / {formatTimecode(duration, fps)}
+      </span>
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.4rem',
+          fontSize: '0.8rem',
+          color: 'rgba(203, 213, 225, 0.85)'
+        }}
+      >
+        <input type="checkbox" checked={loopScene} disabled={disabled} onChange={onToggleLoop} />
+        Loop scene
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useRef, type CSSProperties } from 'react';
+
+type ProjectPanelProps = {
+  name: string;
+  autosaveLabel: string | null;
+  disabled?: boolean;
+  onNameChange: (name: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onReset: () => void;
+};
+
+const buttonStyle: CSSProperties = {
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(226, 232, 240, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.55rem 1.1rem',
+  fontSize: '0.85rem',
+  cursor: 'pointer'
+};
+
+export default function ProjectPanel({
+  name,
+  autosaveLabel,
+  disabled = false,
+  onNameChange,
+  onExport,
+  onImport,
+  onReset
+}: ProjectPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: '0.75rem',
+        background: 'rgba(15, 23, 42, 0.45)',
+        borderRadius: '20px',
+        padding: '1rem 1.25rem',
+        border: '1px solid rgba(148, 163, 184, 0.25)'
+      }}
+    >
+      <input
+        value={name}
+        disabled={disabled}
+        onChange={(event) => onNameChange(event.target.value)}
+        aria-label="Project name"
+        style={{
+          flex: '1 1 220px',
+          background: 'transparent',
+          color: 'rgba(244, 244, 245, 0.92)',
+          border: 'none',
+          borderBottom: '1px solid rgba(148, 163, 184, 0.3)',
+          padding: '0.35rem 0',
+          fontSize: '1.05rem',
+          fontWeight: 600,
+          fontFamily: 'inherit'
+        }}
+      />
+      {autosaveLabel && (
+        <span style={{ fontSize: '0.8rem', color: 'rgba(148, 163, 184, 0.75)' }}>{autosaveLabel}</span>
+      )}
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => fileInputRef.current?.click()}
+        style={buttonStyle}
+      >
+        Open project…
+      </button>
+      <button type="button" disabled={disabled} onClick={onExport} style={buttonStyle}>
+        Save as JSON
+      </button>
+      <button type="button" disabled={disabled} onClick={onReset} style={buttonStyle}>
+        New project
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) onImport(file);
+          event.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+'use client';
+
+import { useEffect, useRef, useState, type CSSProperties } from 'react';
+import { VideoCanvas, type RenderMode, type VideoCanvasHandle } from './VideoCanvas';
+import { createAbortError, isAbortError } from '../utils/abort';
+import { downloadBlob, slugify } from '../utils/files';
+import type { VideoContainer } from '../utils/frameEncoder';
+import { RESOLUTION_PRESETS } from '../utils/layout';
+import { LOCALE_LABELS, projectLocales, type LocaleCode } from '../utils/locales';
+import type { ProjectDocument } from '../utils/project';
+import {
+  createRenderJob,
+  describeRenderJob,
+  renderJobFilename,
+  zipRenderResults,
+  type RenderJob,
+  type RenderJobResult,
+  type RenderJobStatus
+} from '../utils/renderQueue';
+
+type RenderQueueProps = {
+  project: ProjectDocument;
+  mode: RenderMode;
+  disabled?: boolean;
+};
+
+const fieldStyle: CSSProperties = {
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(241, 245, 249, 0.92)',
+  border: '1px solid rgba(148, 163, 184, 0.25)',
+  borderRadius: '10px',
+  padding: '0.45rem 0.65rem',
+  fontSize: '0.85rem',
+  fontFamily: 'inherit'
+};
+
+const ghostButtonStyle: CSSProperties = {
+  background: 'transparent',
+  color: 'rgba(203, 213, 225, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.35rem 0.85rem',
+  fontSize: '0.8rem',
+  cursor: 'pointer'
+};
+
+const STATUS_LABELS: Record<RenderJobStatus, string> = {
+  queued: 'Queued',
+  rendering: 'Rendering',
+  complete: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const STATUS_COLORS: Record<RenderJobStatus, string> = {
+  queued: 'rgba(148, 163, 184, 0.85)',
+  rendering: 'rgba(125, 211, 252, 0.9)',
+  complete: 'rgba(134, 239, 172, 0.9)',
+  failed: 'rgba(252, 165, 165, 0.9)',
+  cancelled: 'rgba(148, 163, 184, 0.65)'
+};
+
+type QueueRendererProps = {
+  job: RenderJob;
+  onProgress: (value: number) => void;
+  onComplete: (result: Omit<RenderJobResult, 'url'>) => void;
+  onFail: (message: string) => void;
+};
+
+// Renders one job on an off-screen canvas so the editor preview stays untouched. Unmounting the
+// renderer cancels its render, which is how a running job is cancelled.
+function QueueRenderer({ job, onProgress, onComplete, onFail }: QueueRendererProps) {
+  const canvasRef = useRef<VideoCanvasHandle>(null);
+  const callbacksRef = useRef({ onComplete, onFail });
+  callbacksRef.current = { onComplete, onFail };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    // Deferred so a StrictMode remount does not start the same render twice.
+    const timer = window.setTimeout(() => {
+      canvasRef.current
+        ?.renderVideo({ mode: job.mode, container: job.container, signal: controller.signal })
+        .then((result) => callbacksRef.current.onComplete(result))
+        .catch((caught) => {
+          if (isAbortError(caught)) return;
+          callbacksRef.current.onFail(
+            caught instanceof Error ? caught.message : 'Unable to render the video.'
+          );
+        });
+    });
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort(createAbortError());
+    };
+  }, [job.container, job.mode]);
+
+  const { project } = job;
+  return (
+    <div
+      aria-hidden
+      style={{
+        position: 'absolute',
+        width: 1,
+        height: 1,
+        overflow: 'hidden',
+        opacity: 0,
+        pointerEvents: 'none'
+      }}
+    >
+      <VideoCanvas
+        ref={canvasRef}
+        scenes={project.scenes}
+        fps={project.settings.fps}
+        resolution={project.settings.resolution}
+        audio={project.audio}
+        theme={project.theme}
+        grade={project.grade}
+        captions={project.captions}
+        locale={job.locale}
+        fonts={project.fonts}
+        controls={false}
+        onProgress={onProgress}
+      />
+    </div>
+  );
+}
+
+export default function RenderQueue({ project, mode, disabled = false }: RenderQueueProps) {
+  const [jobs, setJobs] = useState<RenderJob[]>([]);
+  const [presetId, setPresetId] = useState(RESOLUTION_PRESETS[0].id);
+  const [container, setContainer] = useState<VideoContainer>('mp4');
+  const [localeChoice, setLocale] = useState<LocaleCode | 'all'>(project.locales.base);
+  const availableLocales = projectLocales(project.locales);
+  const locale =
+    localeChoice === 'all' || availableLocales.includes(localeChoice) ? localeChoice : project.locales.base;
+  const [zipping, setZipping] = useState(false);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+
+  const activeJob = jobs.find((job) => job.status === 'rendering') ?? null;
+  const completedJobs = jobs.filter((job) => job.status === 'complete');
+
+  useEffect(() => {
+    if (activeJob) return;
+    const next = jobs.find((job) => job.status === 'queued');
+    if (!next) return;
+    setJobs((current) =>
+      current.map((job) =>
+        job.id === next.id ? { ...job, status: 'rendering', progress: 0, error: null } : job
+      )
+    );
+  }, [activeJob, jobs]);
+
+  useEffect(() => {
+    return () => {
+      jobsRef.current.forEach((job) => job.result && URL.revokeObjectURL(job.result.url));
+    };
+  }, []);
+
+  const updateJob = (id: string, patch: Partial<RenderJob>) => {
+    setJobs((current) => current.map((job) => (job.id === id ? { ...job, ...patch } : job)));
+  };
+
+  const enqueue = () => {
+    const preset = RESOLUTION_PRESETS.find((candidate) => candidate.id === presetId) ?? RESOLUTION_PRESETS[0];
+    const resolution = { width: preset.width, height: preset.height };
+    const locales = locale === 'all' ? availableLocales : [locale];
+    setJobs((current) => [
+      ...current,
+      ...locales.map((code) => createRenderJob(project, resolution, container, mode, code))
+    ]);
+  };
+
+  const retry = (job: RenderJob) => {
+    updateJob(job.id, { status: 'queued', progress: 0, error: null });
+  };
+
+  const remove = (job: RenderJob) => {
+    if (job.result) URL.revokeObjectURL(job.result.url);
+    setJobs((current) => current.filter((candidate) => candidate.id !== job.id));
+  };
+
+  const clearFinished = () => {
+    jobs.forEach((job) => job.status !== 'rendering' && job.result && URL.revokeObjectURL(job.result.url));
+    setJobs((current) => current.filter((job) => job.status === 'queued' || job.status === 'rendering'));
+  };
+
+  const downloadAll = async () => {
+    setZipping(true);
+    setZipError(null);
+    try {
+      downloadBlob(await zipRenderResults(completedJobs), `${slugify(project.name)}-renders.zip`);
+    } catch (caught) {
+      setZipError(caught instanceof Error ? caught.message : 'Unable to build the zip archive.');
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  return (
+    <div style={{ display: 'grid', gap: '1rem' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center' }}>
+        <select
+          value={presetId}
+          onChange={(event) => setPresetId(event.target.value)}
+          aria-label="Queued output size"
+          style={fieldStyle}
+        >
+          {RESOLUTION_PRESETS.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={container}
+          onChange={(event) => setContainer(event.target.value as VideoContainer)}
+          aria-label="Queued output format"
+          style={fieldStyle}
+        >
+          <option value="mp4">MP4</option>
+          <option value="webm">WebM</option>
+        </select>
+        {project.locales.additional.length > 0 && (
+          <select
+            value={locale}
+            onChange={(event) => setLocale(event.target.value as LocaleCode | 'all')}
+            aria-label="Queued language"
+            style={fieldStyle}
+          >
+            {availableLocales.map((code) => (
+              <option key={code} value={code}>
+                {LOCALE_LABELS[code]}
+              </option>
+            ))}
+            <option value="all">Every language</option>
+          </select>
+        )}
+        <button type="button" disabled={disabled} onClick={enqueue} style={ghostButtonStyle}>
+          + Add to queue
+        </button>
+        <span style={{ flex: '1 1 auto' }} />
+        <button
+          type="button"
+          disabled={completedJobs.length === 0 || zipping}
+          onClick={downloadAll}
+          style={ghostButtonStyle}
+        >
+          {zipping ? 'Zipping…' : `Download all (${completedJobs.length}) as .zip`}
+        </button>
+        <button
+          type="button"
+          disabled={!jobs.some((job) => job.status !== 'queued' && job.status !== 'rendering')}
+          onClick={clearFinished}
+          style={ghostButtonStyle}
+        >
+          Clear finished
+        </button>
+      </div>
+
+      {zipError && (
+        <p style={{ margin: 0, color: 'rgba(254, 202, 202, 0.9)', fontSize: '0.85rem' }}>{zipError}</p>
+      )}
+
+      {jobs.length === 0 && (
+        <p style={{ margin: 0, color: 'rgba(148, 163, 184, 0.75)', fontSize: '0.9rem' }}>
+          Queue several sizes and formats of the current project; they render one after another in the
+          background.
+        </p>
+      )}
+
+      {jobs.map((job) => (
+        <div
+          key={job.id}
+          style={{
+            display: 'grid',
+            gap: '0.5rem',
+            background: 'rgba(30, 41, 59, 0.4)',
+            borderRadius: '16px',
+            padding: '0.8rem 1.1rem',
+            border: '1px solid rgba(59, 130, 246, 0.15)'
+          }}
+        >
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center' }}>
+            <strong style={{ fontSize: '0.9rem', color: 'rgba(226, 232, 240, 0.9)' }}>
+              {job.project.name}
+            </strong>
+            <span style={{ fontSize: '0.85rem', color: 'rgba(148, 163, 184, 0.85)' }}>
+              {describeRenderJob(job)}
+            </span>
+            <span style={{ fontSize: '0.8rem', color: STATUS_COLORS[job.status] }}>
+              {STATUS_LABELS[job.status]}
+              {job.status === 'rendering' && ` ${Math.round(job.progress * 100)}%`}
+            </span>
+            <span style={{ flex: '1 1 auto' }} />
+            {job.result && (
+              <a href={job.result.url} download={renderJobFilename(job)} style={ghostButtonStyle}>
+                Download
+              </a>
+            )}
+            {(job.status === 'failed' || job.status === 'cancelled') && (
+              <button type="button" onClick={() => retry(job)} style={ghostButtonStyle}>
+                Retry
+              </button>
+            )}
+            {(job.status === 'queued' || job.status === 'rendering') && (
+              <button
+                type="button"
+                onClick={() => updateJob(job.id, { status: 'cancelled' })}
+                style={ghostButtonStyle}
+              >
+                Cancel
+              </button>
+            )}
+            {job.status !== 'rendering' && (
+              <button type="button" onClick={() => remove(job)} style={ghostButtonStyle}>
+                Remove
+              </button>
+            )}
+          </div>
+          {job.status === 'rendering' && (
+            <div
+              style={{
+                height: 6,
+                borderRadius: '999px',
+                background: 'rgba(15, 23, 42, 0.65)',
+                overflow: 'hidden'
+              }}
+            >
+              <div
+                style={{
+                  width: `${Math.round(job.progress * 100)}%`,
+                  height: '100%',
+                  background: 'rgba(56, 189, 248, 0.85)',
+                  transition: 'width 120ms ease-out'
+                }}
+              />
+            </div>
+          )}
+          {job.error && (
+            <p style={{ margin: 0, fontSize: '0.85rem', color: 'rgba(254, 202, 202, 0.9)' }}>{job.error}</p>
+          )}
+        </div>
+      ))}
+
+      {activeJob && (
+        <QueueRenderer
+          key={activeJob.id}
+          job={activeJob}
+          onProgress={(value) => updateJob(activeJob.id, { progress: value })}
+          onComplete={(result) =>
+            updateJob(activeJob.id, {
+              status: 'complete',
+              progress: 1,
+              result: { ...result, url: URL.createObjectURL(result.blob) }
+            })
+          }
+          onFail={(message) => updateJob(activeJob.id, { status: 'failed', error: message })}
+        />
+      )}
+    </div>
+  );
+}
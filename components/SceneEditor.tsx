@@ -0,0 +1,1022 @@
+'use client';
+
+import { Fragment, useMemo, useState, type CSSProperties, type DragEvent } from 'react';
+import GradingPanel from './GradingPanel';
+import OverlaysPanel from './OverlaysPanel';
+import { createId } from '../utils/ids';
+import { EASING_LABELS, type EasingName } from '../utils/easing';
+import type { ColorGrade } from '../utils/grading';
+import { LOCALE_LABELS, type LocaleCode, type LocaleSettings } from '../utils/locales';
+import {
+  DEFAULT_FALLBACK,
+  MEDIA_TYPE_LABELS,
+  createMedia,
+  type MediaFallback,
+  type SceneMedia,
+  type SceneMediaType
+} from '../utils/media';
+import {
+  DEFAULT_MOTION,
+  MAX_MOTION_ZOOM,
+  MOTION_PRESET_LABELS,
+  motionFromPreset,
+  type MotionKeyframe,
+  type MotionPreset,
+  type SceneMotion
+} from '../utils/motion';
+import type { SceneOverlay } from '../utils/overlays';
+import {
+  TEXT_ALIGN_LABELS,
+  TEXT_ANIMATION_LABELS,
+  TEXT_STYLE_LABELS,
+  createTextLayer,
+  localizedText,
+  type TextAlign,
+  type TextAnimation,
+  type TextAnimationType,
+  type TextLayer,
+  type TextStyle
+} from '../utils/textLayers';
+import { buildTimeline, formatSeconds } from '../utils/timeline';
+import {
+  DEFAULT_TRANSITION,
+  TRANSITION_LABELS,
+  TRANSITION_TYPES,
+  type SceneTransition,
+  type TransitionType
+} from '../utils/transitions';
+import type { SceneConfig } from './VideoCanvas';
+
+type SceneEditorProps = {
+  scenes: SceneConfig[];
+  selectedId: string | null;
+  locales: LocaleSettings;
+  // The language layer text is edited in; translations fall back to the base text until filled in.
+  locale: LocaleCode;
+  // The project grade, which scenes follow until they are given their own.
+  grade: ColorGrade;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onChange: (scenes: SceneConfig[]) => void;
+};
+
+const fieldStyle: CSSProperties = {
+  width: '100%',
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(241, 245, 249, 0.92)',
+  border: '1px solid rgba(148, 163, 184, 0.25)',
+  borderRadius: '10px',
+  padding: '0.5rem 0.7rem',
+  fontSize: '0.9rem',
+  fontFamily: 'inherit'
+};
+
+const labelStyle: CSSProperties = {
+  display: 'grid',
+  gap: '0.3rem',
+  fontSize: '0.75rem',
+  letterSpacing: '0.06em',
+  textTransform: 'uppercase',
+  color: 'rgba(148, 163, 184, 0.85)'
+};
+
+const ghostButtonStyle: CSSProperties = {
+  background: 'transparent',
+  color: 'rgba(203, 213, 225, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.35rem 0.85rem',
+  fontSize: '0.8rem',
+  cursor: 'pointer'
+};
+
+export default function SceneEditor({
+  scenes,
+  selectedId,
+  locales,
+  locale,
+  grade,
+  disabled = false,
+  onSelect,
+  onChange
+}: SceneEditorProps) {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const timeline = useMemo(() => buildTimeline(scenes), [scenes]);
+
+  const updateScene = (id: string, patch: Partial<SceneConfig>) => {
+    onChange(scenes.map((scene) => (scene.id === id ? { ...scene, ...patch } : scene)));
+  };
+
+  const removeScene = (id: string) => {
+    onChange(scenes.filter((scene) => scene.id !== id));
+  };
+
+  const addScene = () => {
+    const template = scenes[scenes.length - 1];
+    const scene: SceneConfig = {
+      id: createId('scene'),
+      title: 'New scene',
+      media: template ? { ...template.media } : createMedia('image'),
+      layers: template
+        ? template.layers.map((layer) => ({
+            ...layer,
+            id: createId('text'),
+            text: layer.style === 'title' ? 'New scene' : layer.style === 'kicker' ? layer.text : '',
+            translations: layer.style === 'kicker' ? layer.translations : {}
+          }))
+        : [createTextLayer('title', 'New scene')],
+      duration: 6
+    };
+    onChange([...scenes, scene]);
+    onSelect(scene.id);
+  };
+
+  const moveScene = (id: string, targetIndex: number) => {
+    const fromIndex = scenes.findIndex((scene) => scene.id === id);
+    if (fromIndex === -1) return;
+    const next = [...scenes];
+    const [moved] = next.splice(fromIndex, 1);
+    next.splice(targetIndex > fromIndex ? targetIndex - 1 : targetIndex, 0, moved);
+    onChange(next);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, index: number) => {
+    if (!dragId) return;
+    event.preventDefault();
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const after = event.clientY > bounds.top + bounds.height / 2;
+    setDropIndex(after ? index + 1 : index);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (dragId && dropIndex !== null) moveScene(dragId, dropIndex);
+    setDragId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div style={{ display: 'grid', gap: '1rem' }}>
+      {scenes.map((scene, index) => {
+        const selected = scene.id === selectedId;
+        const transition = scene.transition ?? DEFAULT_TRANSITION;
+        return (
+          <Fragment key={scene.id}>
+            {index > 0 && (
+              <TransitionControl
+                transition={transition}
+                disabled={disabled}
+                onChange={(next) => updateScene(scene.id, { transition: next })}
+              />
+            )}
+            <div
+              onDragOver={(event) => handleDragOver(event, index)}
+              onDrop={handleDrop}
+              onClick={() => onSelect(scene.id)}
+              style={{
+                display: 'grid',
+                gap: '0.75rem',
+                background: selected ? 'rgba(30, 58, 138, 0.35)' : 'rgba(30, 41, 59, 0.4)',
+                borderRadius: '16px',
+                padding: '1rem 1.2rem',
+                border: `1px solid ${selected ? 'rgba(96, 165, 250, 0.55)' : 'rgba(59, 130, 246, 0.15)'}`,
+                boxShadow:
+                  dropIndex === index
+                    ? '0 -3px 0 rgba(250, 204, 21, 0.8)'
+                    : dropIndex === index + 1 && index === scenes.length - 1
+                      ? '0 3px 0 rgba(250, 204, 21, 0.8)'
+                      : undefined,
+                opacity: dragId === scene.id ? 0.5 : 1
+              }}
+            >
+              <div
+                draggable={!disabled}
+                onDragStart={(event) => {
+                  event.dataTransfer.effectAllowed = 'move';
+                  setDragId(scene.id);
+                }}
+                onDragEnd={() => {
+                  setDragId(null);
+                  setDropIndex(null);
+                }}
+                style={{
+                  display: 'flex',
+                  alignItems: 'baseline',
+                  justifyContent: 'space-between',
+                  gap: '1rem',
+                  cursor: disabled ? 'default' : 'grab'
+                }}
+              >
+                <p style={{ margin: 0, fontSize: '1.1rem', fontWeight: 600 }}>
+                  <span style={{ color: 'rgba(148, 163, 184, 0.6)', marginRight: '0.6rem' }}>⋮⋮</span>
+                  {scene.title || 'Untitled scene'}
+                </p>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                  <span style={{ fontSize: '0.85rem', color: 'rgba(148, 163, 184, 0.75)' }}>
+                    {formatSeconds(timeline.entries[index].start).padStart(2, '0')}s –{' '}
+                    {formatSeconds(timeline.entries[index].end).padStart(2, '0')}s
+                  </span>
+                  <button
+                    type="button"
+                    disabled={disabled || scenes.length <= 1}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      removeScene(scene.id);
+                    }}
+                    style={ghostButtonStyle}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              {selected ? (
+                <div
+                  style={{
+                    display: 'grid',
+                    gap: '0.75rem',
+                    gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))'
+                  }}
+                >
+                  <label style={labelStyle}>
+                    Scene name
+                    <input
+                      value={scene.title}
+                      disabled={disabled}
+                      onChange={(event) => updateScene(scene.id, { title: event.target.value })}
+                      style={fieldStyle}
+                    />
+                  </label>
+                  <label style={labelStyle}>
+                    Duration (s)
+                    <input
+                      type="number"
+                      min={1}
+                      step={0.5}
+                      value={scene.duration}
+                      disabled={disabled}
+                      onChange={(event) => {
+                        const value = Number(event.target.value);
+                        if (Number.isFinite(value) && value > 0) updateScene(scene.id, { duration: value });
+                      }}
+                      style={fieldStyle}
+                    />
+                  </label>
+                  <MediaControl
+                    media={scene.media}
+                    fallback={scene.fallback}
+                    disabled={disabled}
+                    onChange={(media) => updateScene(scene.id, { media })}
+                    onFallbackChange={(fallback) => updateScene(scene.id, { fallback })}
+                  />
+                  <TextLayersControl
+                    layers={scene.layers}
+                    locale={locale}
+                    baseLocale={locales.base}
+                    disabled={disabled}
+                    onChange={(layers) => updateScene(scene.id, { layers })}
+                  />
+                  <OverlaysControl
+                    overlays={scene.overlays ?? []}
+                    disabled={disabled}
+                    onChange={(overlays) =>
+                      updateScene(scene.id, { overlays: overlays.length > 0 ? overlays : undefined })
+                    }
+                  />
+                  <MotionControl
+                    motion={scene.motion ?? DEFAULT_MOTION}
+                    disabled={disabled}
+                    onChange={(motion) => updateScene(scene.id, { motion })}
+                  />
+                  <GradeControl
+                    grade={scene.grade}
+                    projectGrade={grade}
+                    disabled={disabled}
+                    onChange={(sceneGrade) => updateScene(scene.id, { grade: sceneGrade })}
+                  />
+                </div>
+              ) : (
+                <p style={{ margin: 0, color: 'rgba(203, 213, 225, 0.72)', fontSize: '0.95rem' }}>
+                  {scene.layers
+                    .filter((layer) => layer.style !== 'title' && layer.style !== 'kicker')
+                    .map((layer) => localizedText(layer, locale))
+                    .join(' · ')}
+                </p>
+              )}
+            </div>
+          </Fragment>
+        );
+      })}
+
+      <div>
+        <button type="button" disabled={disabled} onClick={addScene} style={ghostButtonStyle}>
+          + Add scene
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function TransitionControl({
+  transition,
+  disabled,
+  onChange
+}: {
+  transition: SceneTransition;
+  disabled: boolean;
+  onChange: (transition: SceneTransition) => void;
+}) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '0.6rem',
+        fontSize: '0.8rem',
+        color: 'rgba(148, 163, 184, 0.85)'
+      }}
+    >
+      <span aria-hidden>↓</span>
+      <select
+        value={transition.type}
+        disabled={disabled}
+        aria-label="Transition"
+        onChange={(event) => {
+          const type = event.target.value as TransitionType;
+          onChange({ type, duration: type === 'cut' ? 0 : transition.duration || 1 });
+        }}
+        style={{ ...fieldStyle, width: 'auto', padding: '0.3rem 0.6rem', fontSize: '0.8rem' }}
+      >
+        {TRANSITION_TYPES.map((type) => (
+          <option key={type} value={type}>
+            {TRANSITION_LABELS[type]}
+          </option>
+        ))}
+      </select>
+      {transition.type !== 'cut' && (
+        <input
+          type="number"
+          min={0.1}
+          step={0.1}
+          value={transition.duration}
+          disabled={disabled}
+          aria-label="Transition duration in seconds"
+          onChange={(event) => {
+            const value = Number(event.target.value);
+            if (Number.isFinite(value) && value > 0) onChange({ ...transition, duration: value });
+          }}
+          style={{ ...fieldStyle, width: '5rem', padding: '0.3rem 0.6rem', fontSize: '0.8rem' }}
+        />
+      )}
+      {transition.type !== 'cut' && <span>s</span>}
+    </div>
+  );
+}
+
+function MediaControl({
+  media,
+  fallback = DEFAULT_FALLBACK,
+  disabled,
+  onChange,
+  onFallbackChange
+}: {
+  media: SceneMedia;
+  fallback?: MediaFallback;
+  disabled: boolean;
+  onChange: (media: SceneMedia) => void;
+  onFallbackChange: (fallback: MediaFallback | undefined) => void;
+}) {
+  // Back at the defaults, the fallback is dropped so the scene reads as having none configured.
+  const updateFallback = (patch: Partial<MediaFallback>) => {
+    const next = { ...fallback, ...patch };
+    const isDefault = next.src === DEFAULT_FALLBACK.src && next.color === DEFAULT_FALLBACK.color;
+    onFallbackChange(isDefault ? undefined : next);
+  };
+
+  const numberField = (
+    label: string,
+    value: number,
+    min: number,
+    step: number,
+    apply: (value: number) => void
+  ) => (
+    <label style={labelStyle}>
+      {label}
+      <input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(event) => {
+          const next = Number(event.target.value);
+          if (Number.isFinite(next) && next >= min) apply(next);
+        }}
+        style={fieldStyle}
+      />
+    </label>
+  );
+
+  const colorField = (label: string, value: string, apply: (value: string) => void) => (
+    <label style={labelStyle}>
+      {label}
+      <input
+        type="color"
+        value={value}
+        disabled={disabled}
+        onChange={(event) => apply(event.target.value)}
+        style={{ ...fieldStyle, padding: '0.2rem', height: '2.4rem' }}
+      />
+    </label>
+  );
+
+  return (
+    <fieldset
+      style={{
+        gridColumn: '1 / -1',
+        display: 'grid',
+        gap: '0.75rem',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))',
+        border: '1px solid rgba(148, 163, 184, 0.2)',
+        borderRadius: '12px',
+        padding: '0.75rem 0.9rem',
+        margin: 0
+      }}
+    >
+      <legend style={{ ...labelStyle, padding: '0 0.4rem' }}>Background</legend>
+      <label style={labelStyle}>
+        Type
+        <select
+          value={media.type}
+          disabled={disabled}
+          onChange={(event) => onChange(createMedia(event.target.value as SceneMediaType, media))}
+          style={fieldStyle}
+        >
+          {(Object.keys(MEDIA_TYPE_LABELS) as SceneMediaType[]).map((type) => (
+            <option key={type} value={type}>
+              {MEDIA_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {(media.type === 'image' || media.type === 'video') && (
+        <label style={{ ...labelStyle, gridColumn: 'span 2' }}>
+          {media.type === 'image' ? 'Image URL' : 'Video URL'}
+          <input
+            value={media.src}
+            disabled={disabled}
+            onChange={(event) => onChange({ ...media, src: event.target.value })}
+            style={fieldStyle}
+          />
+        </label>
+      )}
+      {media.type === 'video' && (
+        <>
+          {numberField('In point (s)', media.in, 0, 0.1, (value) => onChange({ ...media, in: value }))}
+          <label style={labelStyle}>
+            Out point (s)
+            <input
+              type="number"
+              min={media.in}
+              step={0.1}
+              value={media.out ?? ''}
+              placeholder="End of clip"
+              disabled={disabled}
+              onChange={(event) => {
+                const raw = event.target.value;
+                const value = Number(raw);
+                if (raw === '') onChange({ ...media, out: null });
+                else if (Number.isFinite(value) && value > media.in) onChange({ ...media, out: value });
+              }}
+              style={fieldStyle}
+            />
+          </label>
+          <label style={labelStyle}>
+            Clip volume
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={media.volume}
+              disabled={disabled || media.muted}
+              onChange={(event) => onChange({ ...media, volume: Number(event.target.value) })}
+            />
+          </label>
+          <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+            <input
+              type="checkbox"
+              checked={media.muted}
+              disabled={disabled}
+              onChange={(event) => onChange({ ...media, muted: event.target.checked })}
+            />
+            Mute clip audio
+          </label>
+        </>
+      )}
+      {(media.type === 'image' || media.type === 'video') && (
+        <>
+          <label style={{ ...labelStyle, gridColumn: 'span 2' }}>
+            Fallback image URL
+            <input
+              value={fallback.src}
+              placeholder="None, use the fallback colour"
+              disabled={disabled}
+              onChange={(event) => updateFallback({ src: event.target.value })}
+              style={fieldStyle}
+            />
+          </label>
+          {colorField('Fallback colour', fallback.color, (color) => updateFallback({ color }))}
+        </>
+      )}
+      {media.type === 'color' && colorField('Colour', media.color, (color) => onChange({ ...media, color }))}
+      {media.type === 'gradient' && (
+        <>
+          {colorField('From', media.from, (from) => onChange({ ...media, from }))}
+          {colorField('To', media.to, (to) => onChange({ ...media, to }))}
+          {numberField('Angle (°)', media.angle, 0, 15, (angle) =>
+            onChange({ ...media, angle: angle % 360 })
+          )}
+        </>
+      )}
+    </fieldset>
+  );
+}
+
+function TextLayersControl({
+  layers,
+  locale,
+  baseLocale,
+  disabled,
+  onChange
+}: {
+  layers: TextLayer[];
+  locale: LocaleCode;
+  baseLocale: LocaleCode;
+  disabled: boolean;
+  onChange: (layers: TextLayer[]) => void;
+}) {
+  const [newStyle, setNewStyle] = useState<TextStyle>('subtitle');
+
+  const updateLayer = (id: string, patch: Partial<TextLayer>) => {
+    onChange(layers.map((layer) => (layer.id === id ? { ...layer, ...patch } : layer)));
+  };
+
+  const updateText = (layer: TextLayer, text: string) => {
+    if (locale === baseLocale) {
+      updateLayer(layer.id, { text });
+      return;
+    }
+    updateLayer(layer.id, { translations: { ...layer.translations, [locale]: text } });
+  };
+
+  const slider = (layer: TextLayer, key: 'x' | 'y' | 'width', label: string) => (
+    <label style={labelStyle}>
+      {label}
+      <input
+        type="range"
+        min={key === 'width' ? 0.1 : 0}
+        max={1}
+        step={0.01}
+        value={layer[key]}
+        disabled={disabled}
+        onChange={(event) => updateLayer(layer.id, { [key]: Number(event.target.value) })}
+      />
+    </label>
+  );
+
+  const animationField = (layer: TextLayer, key: 'enter' | 'exit', label: string) => {
+    const animation: TextAnimation = layer[key];
+    return (
+      <label style={labelStyle}>
+        {label}
+        <div style={{ display: 'flex', gap: '0.4rem' }}>
+          <select
+            value={animation.type}
+            disabled={disabled}
+            onChange={(event) => {
+              const type = event.target.value as TextAnimationType;
+              updateLayer(layer.id, { [key]: { ...animation, type } });
+            }}
+            style={fieldStyle}
+          >
+            {(Object.keys(TEXT_ANIMATION_LABELS) as TextAnimationType[]).map((type) => (
+              <option key={type} value={type}>
+                {TEXT_ANIMATION_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={animation.duration}
+            disabled={disabled || animation.type === 'none'}
+            aria-label={`${label} duration in seconds`}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              if (Number.isFinite(value) && value >= 0) {
+                updateLayer(layer.id, { [key]: { ...animation, duration: value } });
+              }
+            }}
+            style={{ ...fieldStyle, width: '4.5rem' }}
+          />
+        </div>
+      </label>
+    );
+  };
+
+  return (
+    <fieldset
+      style={{
+        gridColumn: '1 / -1',
+        display: 'grid',
+        gap: '0.75rem',
+        border: '1px solid rgba(148, 163, 184, 0.2)',
+        borderRadius: '12px',
+        padding: '0.75rem 0.9rem',
+        margin: 0
+      }}
+    >
+      <legend style={{ ...labelStyle, padding: '0 0.4rem' }}>Text layers</legend>
+      {layers.map((layer, index) => (
+        <div
+          key={layer.id}
+          style={{
+            display: 'grid',
+            gap: '0.75rem',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))',
+            paddingBottom: '0.75rem',
+            borderBottom: '1px solid rgba(148, 163, 184, 0.12)'
+          }}
+        >
+          <label style={{ ...labelStyle, gridColumn: '1 / -1' }}>
+            {TEXT_STYLE_LABELS[layer.style]} text
+            {locale !== baseLocale && ` · ${LOCALE_LABELS[locale]}`}
+            <textarea
+              value={locale === baseLocale ? layer.text : (layer.translations[locale] ?? '')}
+              disabled={disabled}
+              rows={2}
+              dir="auto"
+              lang={locale}
+              placeholder={locale === baseLocale ? undefined : layer.text}
+              onChange={(event) => updateText(layer, event.target.value)}
+              style={{ ...fieldStyle, resize: 'vertical' }}
+            />
+          </label>
+          <label style={labelStyle}>
+            Style
+            <select
+              value={layer.style}
+              disabled={disabled}
+              onChange={(event) => updateLayer(layer.id, { style: event.target.value as TextStyle })}
+              style={fieldStyle}
+            >
+              {(Object.keys(TEXT_STYLE_LABELS) as TextStyle[]).map((style) => (
+                <option key={style} value={style}>
+                  {TEXT_STYLE_LABELS[style]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            Align
+            <select
+              value={layer.align}
+              disabled={disabled}
+              onChange={(event) => updateLayer(layer.id, { align: event.target.value as TextAlign })}
+              style={fieldStyle}
+            >
+              {(Object.keys(TEXT_ALIGN_LABELS) as TextAlign[]).map((align) => (
+                <option key={align} value={align}>
+                  {TEXT_ALIGN_LABELS[align]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            Size (px at 720p)
+            <input
+              type="number"
+              min={8}
+              step={1}
+              value={layer.size}
+              disabled={disabled}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                if (Number.isFinite(value) && value > 0) updateLayer(layer.id, { size: value });
+              }}
+              style={fieldStyle}
+            />
+          </label>
+          <label style={labelStyle}>
+            Max lines
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={layer.maxLines ?? ''}
+              placeholder="No limit"
+              disabled={disabled}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                if (event.target.value === '') updateLayer(layer.id, { maxLines: null });
+                else if (Number.isInteger(value) && value > 0) updateLayer(layer.id, { maxLines: value });
+              }}
+              style={fieldStyle}
+            />
+          </label>
+          {slider(layer, 'x', 'Left')}
+          {slider(layer, 'y', 'Top')}
+          {slider(layer, 'width', 'Width')}
+          <label style={labelStyle}>
+            Font
+            <input
+              value={layer.font ?? ''}
+              placeholder="Theme font"
+              disabled={disabled}
+              onChange={(event) => updateLayer(layer.id, { font: event.target.value.trim() || null })}
+              style={fieldStyle}
+            />
+          </label>
+          <label style={labelStyle}>
+            Colour
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+              <input
+                type="color"
+                value={layer.color ?? '#ffffff'}
+                disabled={disabled || layer.color === null}
+                onChange={(event) => updateLayer(layer.id, { color: event.target.value })}
+                style={{ ...fieldStyle, padding: '0.2rem', height: '2.4rem' }}
+              />
+              <input
+                type="checkbox"
+                checked={layer.color === null}
+                disabled={disabled}
+                aria-label="Use theme colour"
+                title="Use theme colour"
+                onChange={(event) =>
+                  updateLayer(layer.id, { color: event.target.checked ? null : '#ffffff' })
+                }
+              />
+            </div>
+          </label>
+          <label style={labelStyle}>
+            Appears at (s)
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={layer.start}
+              disabled={disabled}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                if (Number.isFinite(value) && value >= 0) updateLayer(layer.id, { start: value });
+              }}
+              style={fieldStyle}
+            />
+          </label>
+          <label style={labelStyle}>
+            Leaves at (s)
+            <input
+              type="number"
+              min={layer.start}
+              step={0.1}
+              value={layer.end ?? ''}
+              placeholder="Scene end"
+              disabled={disabled}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                if (event.target.value === '') updateLayer(layer.id, { end: null });
+                else if (Number.isFinite(value) && value > layer.start) updateLayer(layer.id, { end: value });
+              }}
+              style={fieldStyle}
+            />
+          </label>
+          {animationField(layer, 'enter', 'Entrance')}
+          {animationField(layer, 'exit', 'Exit')}
+          <div style={{ display: 'flex', alignItems: 'end', gap: '0.4rem' }}>
+            <button
+              type="button"
+              disabled={disabled || index === 0}
+              onClick={() => {
+                const next = [...layers];
+                next.splice(index - 1, 0, ...next.splice(index, 1));
+                onChange(next);
+              }}
+              aria-label="Draw layer earlier"
+              style={ghostButtonStyle}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange(layers.filter((candidate) => candidate.id !== layer.id))}
+              style={ghostButtonStyle}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.6rem' }}>
+        <select
+          value={newStyle}
+          disabled={disabled}
+          aria-label="New text layer style"
+          onChange={(event) => setNewStyle(event.target.value as TextStyle)}
+          style={{ ...fieldStyle, width: 'auto' }}
+        >
+          {(Object.keys(TEXT_STYLE_LABELS) as TextStyle[]).map((style) => (
+            <option key={style} value={style}>
+              {TEXT_STYLE_LABELS[style]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange([...layers, createTextLayer(newStyle, TEXT_STYLE_LABELS[newStyle])])}
+          style={ghostButtonStyle}
+        >
+          + Add text layer
+        </button>
+      </div>
+    </fieldset>
+  );
+}
+
+function MotionControl({
+  motion,
+  disabled,
+  onChange
+}: {
+  motion: SceneMotion;
+  disabled: boolean;
+  onChange: (motion: SceneMotion) => void;
+}) {
+  const [intensity, setIntensity] = useState(0.12);
+
+  const updateKeyframe = (key: 'start' | 'end', patch: Partial<MotionKeyframe>) => {
+    onChange({ ...motion, [key]: { ...motion[key], ...patch } });
+  };
+
+  const slider = (key: 'start' | 'end', axis: keyof MotionKeyframe, label: string) => {
+    const isZoom = axis === 'zoom';
+    return (
+      <label style={labelStyle}>
+        {label}
+        <input
+          type="range"
+          min={isZoom ? 1 : 0}
+          max={isZoom ? MAX_MOTION_ZOOM : 1}
+          step={0.01}
+          value={motion[key][axis]}
+          disabled={disabled}
+          onChange={(event) => updateKeyframe(key, { [axis]: Number(event.target.value) })}
+        />
+      </label>
+    );
+  };
+
+  return (
+    <fieldset
+      style={{
+        gridColumn: '1 / -1',
+        display: 'grid',
+        gap: '0.75rem',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))',
+        border: '1px solid rgba(148, 163, 184, 0.2)',
+        borderRadius: '12px',
+        padding: '0.75rem 0.9rem',
+        margin: 0
+      }}
+    >
+      <legend style={{ ...labelStyle, padding: '0 0.4rem' }}>Camera motion</legend>
+      <label style={labelStyle}>
+        Preset
+        <select
+          value=""
+          disabled={disabled}
+          onChange={(event) => {
+            const preset = event.target.value as MotionPreset;
+            if (!preset) return;
+            const focus = { x: (motion.start.x + motion.end.x) / 2, y: (motion.start.y + motion.end.y) / 2 };
+            onChange(motionFromPreset(preset, focus, intensity, motion.easing));
+          }}
+          style={fieldStyle}
+        >
+          <option value="" disabled>
+            Apply preset…
+          </option>
+          {(Object.keys(MOTION_PRESET_LABELS) as MotionPreset[]).map((preset) => (
+            <option key={preset} value={preset}>
+              {MOTION_PRESET_LABELS[preset]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Intensity
+        <input
+          type="range"
+          min={0.02}
+          max={0.5}
+          step={0.01}
+          value={intensity}
+          disabled={disabled}
+          onChange={(event) => setIntensity(Number(event.target.value))}
+        />
+      </label>
+      <label style={labelStyle}>
+        Easing
+        <select
+          value={motion.easing}
+          disabled={disabled}
+          onChange={(event) => onChange({ ...motion, easing: event.target.value as EasingName })}
+          style={fieldStyle}
+        >
+          {(Object.keys(EASING_LABELS) as EasingName[]).map((easing) => (
+            <option key={easing} value={easing}>
+              {EASING_LABELS[easing]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {slider('start', 'x', 'Start focus X')}
+      {slider('start', 'y', 'Start focus Y')}
+      {slider('start', 'zoom', 'Start zoom')}
+      {slider('end', 'x', 'End focus X')}
+      {slider('end', 'y', 'End focus Y')}
+      {slider('end', 'zoom', 'End zoom')}
+    </fieldset>
+  );
+}
+
+function OverlaysControl({
+  overlays,
+  disabled,
+  onChange
+}: {
+  overlays: SceneOverlay[];
+  disabled: boolean;
+  onChange: (overlays: SceneOverlay[]) => void;
+}) {
+  return (
+    <fieldset
+      style={{
+        gridColumn: '1 / -1',
+        display: 'grid',
+        gap: '0.75rem',
+        border: '1px solid rgba(148, 163, 184, 0.2)',
+        borderRadius: '12px',
+        padding: '0.75rem 0.9rem',
+        margin: 0
+      }}
+    >
+      <legend style={{ ...labelStyle, padding: '0 0.4rem' }}>Overlays</legend>
+      <OverlaysPanel overlays={overlays} disabled={disabled} onChange={onChange} />
+    </fieldset>
+  );
+}
+
+function GradeControl({
+  grade,
+  projectGrade,
+  disabled,
+  onChange
+}: {
+  grade: ColorGrade | undefined;
+  projectGrade: ColorGrade;
+  disabled: boolean;
+  onChange: (grade: ColorGrade | undefined) => void;
+}) {
+  return (
+    <fieldset
+      style={{
+        gridColumn: '1 / -1',
+        display: 'grid',
+        gap: '0.75rem',
+        border: '1px solid rgba(148, 163, 184, 0.2)',
+        borderRadius: '12px',
+        padding: '0.75rem 0.9rem',
+        margin: 0
+      }}
+    >
+      <legend style={{ ...labelStyle, padding: '0 0.4rem' }}>Colour grade</legend>
+      <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+        <input
+          type="checkbox"
+          checked={grade !== undefined}
+          disabled={disabled}
+          onChange={(event) => onChange(event.target.checked ? { ...projectGrade } : undefined)}
+        />
+        Grade this scene separately from the project
+      </label>
+      {grade && <GradingPanel grade={grade} disabled={disabled} onChange={onChange} />}
+    </fieldset>
+  );
+}
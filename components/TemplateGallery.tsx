@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, type CSSProperties } from 'react';
+import { findResolutionPreset } from '../utils/layout';
+import type { SceneMedia } from '../utils/media';
+import { assetIdFromUrl } from '../utils/mediaLibrary';
+import type { UnreadableTemplate } from '../utils/templateStorage';
+import { BUILT_IN_TEMPLATES, type ReelTemplate } from '../utils/templates';
+import { buildTimeline, formatSeconds } from '../utils/timeline';
+
+type TemplateGalleryProps = {
+  // Templates saved from projects in this browser; the built-ins are always listed first.
+  custom: ReelTemplate[];
+  unreadable: UnreadableTemplate[];
+  disabled?: boolean;
+  onUse: (template: ReelTemplate, keepContent: boolean) => void;
+  onSave: (name: string, description: string) => void;
+  onDelete: (id: string) => void;
+};
+
+const fieldStyle: CSSProperties = {
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(241, 245, 249, 0.92)',
+  border: '1px solid rgba(148, 163, 184, 0.25)',
+  borderRadius: '10px',
+  padding: '0.45rem 0.65rem',
+  fontSize: '0.85rem',
+  fontFamily: 'inherit'
+};
+
+const ghostButtonStyle: CSSProperties = {
+  background: 'transparent',
+  color: 'rgba(203, 213, 225, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.3rem 0.75rem',
+  fontSize: '0.75rem',
+  cursor: 'pointer'
+};
+
+// Library references only resolve asynchronously, so those scenes show a neutral swatch instead.
+function swatch(media: SceneMedia) {
+  switch (media.type) {
+    case 'color':
+      return media.color;
+    case 'gradient':
+      return `linear-gradient(${media.angle}deg, ${media.from}, ${media.to})`;
+    case 'image':
+      return media.src && !assetIdFromUrl(media.src)
+        ? `center / cover no-repeat url("${media.src}"), rgba(51, 65, 85, 0.8)`
+        : 'rgba(51, 65, 85, 0.8)';
+    case 'video':
+      return 'rgba(51, 65, 85, 0.8)';
+  }
+}
+
+function describeTemplate({ project }: ReelTemplate) {
+  const { duration } = buildTimeline(project.scenes, project.settings.duration);
+  const { resolution } = project.settings;
+  const size = findResolutionPreset(resolution)?.label ?? `${resolution.width}×${resolution.height}`;
+  const count = project.scenes.length;
+  return `${count} ${count === 1 ? 'scene' : 'scenes'} · ${formatSeconds(duration)}s · ${size}`;
+}
+
+export default function TemplateGallery({
+  custom,
+  unreadable,
+  disabled = false,
+  onUse,
+  onSave,
+  onDelete
+}: TemplateGalleryProps) {
+  const [keepContent, setKeepContent] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const customIds = new Set(custom.map((template) => template.id));
+
+  return (
+    <div style={{ display: 'grid', gap: '1rem' }}>
+      <div
+        style={{
+          display: 'grid',
+          gap: '0.75rem',
+          gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))'
+        }}
+      >
+        {[...BUILT_IN_TEMPLATES, ...custom].map((template) => (
+          <div
+            key={template.id}
+            style={{
+              display: 'grid',
+              gap: '0.45rem',
+              alignContent: 'start',
+              background: 'rgba(30, 41, 59, 0.4)',
+              borderRadius: '14px',
+              padding: '0.7rem',
+              border: '1px solid rgba(59, 130, 246, 0.15)'
+            }}
+          >
+            <div
+              style={{
+                display: 'flex',
+                gap: '2px',
+                height: '2.6rem',
+                borderRadius: '8px',
+                overflow: 'hidden'
+              }}
+            >
+              {template.project.scenes.map((scene) => (
+                <span key={scene.id} style={{ flex: scene.duration, background: swatch(scene.media) }} />
+              ))}
+            </div>
+            <strong style={{ fontSize: '0.9rem', color: 'rgba(226, 232, 240, 0.92)' }}>
+              {template.name}
+            </strong>
+            <span style={{ fontSize: '0.75rem', color: 'rgba(148, 163, 184, 0.85)' }}>
+              {describeTemplate(template)}
+            </span>
+            {template.description && (
+              <p style={{ margin: 0, fontSize: '0.8rem', color: 'rgba(203, 213, 225, 0.75)' }}>
+                {template.description}
+              </p>
+            )}
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.4rem' }}>
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => onUse(template, keepContent)}
+                style={ghostButtonStyle}
+              >
+                Use template
+              </button>
+              {customIds.has(template.id) && (
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onDelete(template.id)}
+                  style={ghostButtonStyle}
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {unreadable.map((template) => (
+        <div
+          key={template.id}
+          role="alert"
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: '0.6rem',
+            fontSize: '0.85rem',
+            color: 'rgba(254, 202, 202, 0.9)'
+          }}
+        >
+          <span style={{ flex: '1 1 260px' }}>
+            Saved template “{template.name}” can no longer be opened. {template.reason}
+          </span>
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => onDelete(template.id)}
+            style={ghostButtonStyle}
+          >
+            Delete
+          </button>
+        </div>
+      ))}
+
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          fontSize: '0.85rem',
+          color: 'rgba(203, 213, 225, 0.85)'
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={keepContent}
+          disabled={disabled}
+          onChange={(event) => setKeepContent(event.target.checked)}
+        />
+        Keep my current media and copy, scene by scene
+      </label>
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!name.trim()) return;
+          onSave(name.trim(), description.trim());
+          setName('');
+          setDescription('');
+        }}
+        style={{ display: 'flex', flexWrap: 'wrap', gap: '0.6rem', alignItems: 'center' }}
+      >
+        <input
+          value={name}
+          disabled={disabled}
+          placeholder="Template name"
+          aria-label="Template name"
+          onChange={(event) => setName(event.target.value)}
+          style={{ ...fieldStyle, flex: '1 1 160px' }}
+        />
+        <input
+          value={description}
+          disabled={disabled}
+          placeholder="What is it for? (optional)"
+          aria-label="Template description"
+          onChange={(event) => setDescription(event.target.value)}
+          style={{ ...fieldStyle, flex: '2 1 240px' }}
+        />
+        <button type="submit" disabled={disabled || !name.trim()} style={ghostButtonStyle}>
+          Save current project as template
+        </button>
+      </form>
+    </div>
+  );
+}
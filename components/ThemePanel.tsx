@@ -0,0 +1,294 @@
+'use client';
+
+import { useRef, useState, type CSSProperties } from 'react';
+import type { CustomFont } from '../utils/fonts';
+import { importAsset, type MediaAsset } from '../utils/mediaLibrary';
+import {
+  FRAME_STYLE_LABELS,
+  LOGO_POSITION_LABELS,
+  THEME_PRESETS,
+  findThemePreset,
+  type FrameStyle,
+  type LogoPosition,
+  type Theme
+} from '../utils/themes';
+
+type ThemePanelProps = {
+  theme: Theme;
+  fonts: CustomFont[];
+  disabled?: boolean;
+  onChange: (theme: Theme) => void;
+  onFontsChange: (fonts: CustomFont[]) => void;
+  onFontImported: (asset: MediaAsset) => void;
+};
+
+const fieldStyle: CSSProperties = {
+  width: '100%',
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(241, 245, 249, 0.92)',
+  border: '1px solid rgba(148, 163, 184, 0.25)',
+  borderRadius: '10px',
+  padding: '0.45rem 0.65rem',
+  fontSize: '0.85rem',
+  fontFamily: 'inherit'
+};
+
+const labelStyle: CSSProperties = {
+  display: 'grid',
+  gap: '0.3rem',
+  fontSize: '0.72rem',
+  letterSpacing: '0.06em',
+  textTransform: 'uppercase',
+  color: 'rgba(148, 163, 184, 0.85)'
+};
+
+const ghostButtonStyle: CSSProperties = {
+  background: 'transparent',
+  color: 'rgba(203, 213, 225, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.3)',
+  borderRadius: '999px',
+  padding: '0.35rem 0.85rem',
+  fontSize: '0.8rem',
+  cursor: 'pointer'
+};
+
+const COLOR_FIELDS: Array<{ key: keyof Theme['colors']; label: string }> = [
+  { key: 'kicker', label: 'Kicker colour' },
+  { key: 'title', label: 'Title colour' },
+  { key: 'subtitle', label: 'Subtitle colour' },
+  { key: 'frameStroke', label: 'Frame colour' },
+  { key: 'progressFill', label: 'Progress colour' }
+];
+
+const FONT_FIELDS: Array<{ key: keyof Theme['fonts']; label: string }> = [
+  { key: 'kicker', label: 'Kicker font' },
+  { key: 'title', label: 'Title font' },
+  { key: 'body', label: 'Body font' }
+];
+
+export default function ThemePanel({
+  theme,
+  fonts,
+  disabled = false,
+  onChange,
+  onFontsChange,
+  onFontImported
+}: ThemePanelProps) {
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const [fontError, setFontError] = useState<string | null>(null);
+  const logo = theme.logo ?? { src: '', position: 'top-right' as LogoPosition, width: 140, opacity: 0.85 };
+
+  const updateLogo = (patch: Partial<typeof logo>) => {
+    const next = { ...logo, ...patch };
+    onChange({ ...theme, logo: next.src.trim() ? next : null });
+  };
+
+  const uploadFont = async (file: File) => {
+    try {
+      const asset = await importAsset(file);
+      if (asset.kind !== 'font') throw new Error(`"${file.name}" is not a font file.`);
+      setFontError(null);
+      onFontImported(asset);
+    } catch (caught) {
+      setFontError(caught instanceof Error ? caught.message : `"${file.name}" could not be imported.`);
+    }
+  };
+
+  return (
+    <div
+      style={{ display: 'grid', gap: '0.9rem', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))' }}
+    >
+      <label style={labelStyle}>
+        Preset
+        <select
+          value={theme.id}
+          disabled={disabled}
+          onChange={(event) => {
+            const preset = findThemePreset(event.target.value);
+            if (preset) onChange({ ...preset, logo: theme.logo });
+          }}
+          style={fieldStyle}
+        >
+          {THEME_PRESETS.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Kicker text
+        <input
+          value={theme.kicker}
+          disabled={disabled}
+          onChange={(event) => onChange({ ...theme, kicker: event.target.value })}
+          style={fieldStyle}
+        />
+      </label>
+      <label style={labelStyle}>
+        Frame
+        <select
+          value={theme.frame.style}
+          disabled={disabled}
+          onChange={(event) =>
+            onChange({ ...theme, frame: { ...theme.frame, style: event.target.value as FrameStyle } })
+          }
+          style={fieldStyle}
+        >
+          {(Object.keys(FRAME_STYLE_LABELS) as FrameStyle[]).map((style) => (
+            <option key={style} value={style}>
+              {FRAME_STYLE_LABELS[style]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {COLOR_FIELDS.map(({ key, label }) => (
+        <label key={key} style={labelStyle}>
+          {label}
+          <span style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+            <span
+              aria-hidden
+              style={{
+                flex: '0 0 auto',
+                width: 22,
+                height: 22,
+                borderRadius: '6px',
+                border: '1px solid rgba(148, 163, 184, 0.35)',
+                background: theme.colors[key]
+              }}
+            />
+            <input
+              value={theme.colors[key]}
+              disabled={disabled}
+              onChange={(event) =>
+                onChange({ ...theme, colors: { ...theme.colors, [key]: event.target.value } })
+              }
+              style={fieldStyle}
+            />
+          </span>
+        </label>
+      ))}
+
+      {FONT_FIELDS.map(({ key, label }) => (
+        <label key={key} style={labelStyle}>
+          {label}
+          <input
+            value={theme.fonts[key]}
+            disabled={disabled}
+            onChange={(event) => onChange({ ...theme, fonts: { ...theme.fonts, [key]: event.target.value } })}
+            style={fieldStyle}
+          />
+        </label>
+      ))}
+
+      <div style={{ gridColumn: '1 / -1', display: 'grid', gap: '0.6rem' }}>
+        <span style={labelStyle}>Custom fonts</span>
+        {fonts.map((font) => (
+          <div key={font.id} style={{ display: 'flex', gap: '0.6rem', alignItems: 'center' }}>
+            <input
+              value={font.family}
+              disabled={disabled}
+              aria-label="Font family name"
+              onChange={(event) =>
+                onFontsChange(
+                  fonts.map((candidate) =>
+                    candidate.id === font.id ? { ...candidate, family: event.target.value } : candidate
+                  )
+                )
+              }
+              style={{ ...fieldStyle, flex: '1 1 auto', fontFamily: `"${font.family}", inherit` }}
+            />
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => onFontsChange(fonts.filter((candidate) => candidate.id !== font.id))}
+              style={ghostButtonStyle}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center' }}>
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => fontInputRef.current?.click()}
+            style={ghostButtonStyle}
+          >
+            + Upload font
+          </button>
+          <span style={{ fontSize: '0.8rem', color: 'rgba(148, 163, 184, 0.85)' }}>
+            Name an uploaded family first in a font field above, e.g. “My Font”, sans-serif.
+          </span>
+          <input
+            ref={fontInputRef}
+            type="file"
+            accept=".ttf,.otf,.woff,.woff2"
+            hidden
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) uploadFont(file);
+              event.target.value = '';
+            }}
+          />
+        </div>
+        {fontError && (
+          <p role="alert" style={{ margin: 0, fontSize: '0.85rem', color: 'rgba(254, 202, 202, 0.9)' }}>
+            {fontError}
+          </p>
+        )}
+      </div>
+
+      <label style={{ ...labelStyle, gridColumn: 'span 2' }}>
+        Logo watermark URL
+        <input
+          value={logo.src}
+          disabled={disabled}
+          placeholder="Leave empty for no logo"
+          onChange={(event) => updateLogo({ src: event.target.value })}
+          style={fieldStyle}
+        />
+      </label>
+      <label style={labelStyle}>
+        Logo position
+        <select
+          value={logo.position}
+          disabled={disabled || !theme.logo}
+          onChange={(event) => updateLogo({ position: event.target.value as LogoPosition })}
+          style={fieldStyle}
+        >
+          {(Object.keys(LOGO_POSITION_LABELS) as LogoPosition[]).map((position) => (
+            <option key={position} value={position}>
+              {LOGO_POSITION_LABELS[position]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Logo width {logo.width}px
+        <input
+          type="range"
+          min={40}
+          max={400}
+          step={4}
+          value={logo.width}
+          disabled={disabled || !theme.logo}
+          onChange={(event) => updateLogo({ width: Number(event.target.value) })}
+        />
+      </label>
+      <label style={labelStyle}>
+        Logo opacity {Math.round(logo.opacity * 100)}%
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={logo.opacity}
+          disabled={disabled || !theme.logo}
+          onChange={(event) => updateLogo({ opacity: Number(event.target.value) })}
+        />
+      </label>
+    </div>
+  );
+}
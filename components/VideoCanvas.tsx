@@ -5,81 +5,184 @@ import {
   useCallback,
   useEffect,
   useImperativeHandle,
+  useMemo,
   useRef,
   useState
 } from 'react';
+import PreviewTransport from './PreviewTransport';
+import { createAbortError, isAbortError } from '../utils/abort';
+import { createAssetCache, loadSceneAssets, type AssetCache, type AssetProgress } from '../utils/assetCache';
+import { DEFAULT_AUDIO, renderAudioMix, type AudioSettings } from '../utils/audioMix';
+import { buildCaptionCues, type CaptionSettings, type TrackDurations } from '../utils/captions';
+import { clamp } from '../utils/easing';
+import { loadFonts, projectFontReferences, type CustomFont } from '../utils/fonts';
+import { DEFAULT_GRADE, type ColorGrade } from '../utils/grading';
+import { WEB_CODECS_SUPPORT, encodeFrames, type VideoContainer } from '../utils/frameEncoder';
+import { drawFrame as renderFrame, type FrameAssets } from '../utils/frameRenderer';
+import { DEFAULT_LOCALES, type LocaleCode } from '../utils/locales';
+import {
+  mediaKey,
+  pauseVideoSources,
+  syncVideoSources,
+  type MediaFallback,
+  type SceneMedia
+} from '../utils/media';
+import type { SceneMotion } from '../utils/motion';
+import { overlayImageSources, type SceneOverlay } from '../utils/overlays';
+import type { TextLayer } from '../utils/textLayers';
+import { DEFAULT_THEME, type Theme } from '../utils/themes';
+import { buildTimeline, findTimelineEntry } from '../utils/timeline';
+import type { SceneTransition } from '../utils/transitions';
 
 export type SceneConfig = {
+  id: string;
   title: string;
-  subtitle: string;
-  description: string;
-  image: string;
-  start: number;
+  media: SceneMedia;
+  layers: TextLayer[];
   duration: number;
+  transition?: SceneTransition;
+  motion?: SceneMotion;
+  fallback?: MediaFallback;
+  grade?: ColorGrade;
+  overlays?: SceneOverlay[];
 };
 
 export type RenderStatus =
   | 'idle'
   | 'loading-assets'
   | 'rendering'
+  | 'paused'
   | 'complete'
+  | 'cancelled'
   | 'error';
 
+export type RenderMode = 'frame-accurate' | 'realtime';
+
 type VideoCanvasProps = {
   scenes: SceneConfig[];
-  duration: number;
   fps: number;
   resolution?: {
     width: number;
     height: number;
   };
+  previewTime?: number;
+  controls?: boolean;
+  audio?: AudioSettings;
+  theme?: Theme;
+  grade?: ColorGrade;
+  captions?: CaptionSettings;
+  locale?: LocaleCode;
+  // Narration lengths, so burned-in transcript captions end when the narration does.
+  trackDurations?: TrackDurations;
+  fonts?: CustomFont[];
   onStatusChange?: (status: RenderStatus) => void;
   onProgress?: (value: number) => void;
+  onAssetProgress?: (progress: AssetProgress) => void;
   onError?: (message: string) => void;
 };
 
-export type VideoCanvasHandle = {
-  renderVideo: () => Promise<{ blob: Blob; mimeType: string }>;
-  isMediaRecorderSupported: boolean;
+export type RenderOptions = {
+  mode?: RenderMode;
+  container?: VideoContainer;
+  signal?: AbortSignal;
 };
 
-const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+type PlaybackControls = {
+  pause: () => void;
+  resume: () => void;
+};
 
-const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+export type VideoCanvasHandle = {
+  renderVideo: (options?: RenderOptions) => Promise<{ blob: Blob; mimeType: string }>;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+  isMediaRecorderSupported: boolean;
+  isWebCodecsSupported: boolean;
+};
 
 const DEFAULT_RESOLUTION = { width: 1280, height: 720 };
 
+const VIDEO_BITRATE = 5_000_000;
+const MAX_PREVIEW_PIXELS = 3840 * 2160;
+
 const MEDIA_RECORDER_SUPPORT = (() => {
   if (typeof window === 'undefined') return false;
   return typeof window.MediaRecorder !== 'undefined';
 })();
 
-function buildMimeType(): string {
-  if (typeof window === 'undefined' || !('MediaRecorder' in window)) return 'video/webm';
-  if (window.MediaRecorder.isTypeSupported('video/webm;codecs=vp9')) return 'video/webm;codecs=vp9';
-  if (window.MediaRecorder.isTypeSupported('video/webm;codecs=vp8')) return 'video/webm;codecs=vp8';
-  if (window.MediaRecorder.isTypeSupported('video/webm;codecs=h264')) return 'video/webm;codecs=h264';
-  return 'video/webm';
+const RECORDER_MIME_TYPES: Record<VideoContainer, string[]> = {
+  webm: [
+    'video/webm;codecs=vp9,opus',
+    'video/webm;codecs=vp8,opus',
+    'video/webm;codecs=vp9',
+    'video/webm;codecs=vp8',
+    'video/webm;codecs=h264',
+    'video/webm'
+  ],
+  mp4: ['video/mp4;codecs=avc1.42E01E,mp4a.40.2', 'video/mp4;codecs=avc1.42E01E', 'video/mp4']
+};
+
+// VIDEO_BITRATE is tuned for 720p; larger outputs get the same bits per pixel.
+function bitrateFor(width: number, height: number) {
+  return Math.round((VIDEO_BITRATE * width * height) / (DEFAULT_RESOLUTION.width * DEFAULT_RESOLUTION.height));
+}
+
+function buildMimeType(container: VideoContainer): string {
+  if (typeof window === 'undefined' || !('MediaRecorder' in window)) return `video/${container}`;
+  const supported = RECORDER_MIME_TYPES[container].find((type) => window.MediaRecorder.isTypeSupported(type));
+  if (!supported) {
+    throw new Error(`MediaRecorder cannot produce ${container.toUpperCase()} video in this browser.`);
+  }
+  return supported;
 }
 
 export const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(
   (
     {
       scenes,
-      duration,
       fps,
       resolution = DEFAULT_RESOLUTION,
+      previewTime = 0,
+      controls = true,
+      audio,
+      theme = DEFAULT_THEME,
+      grade = DEFAULT_GRADE,
+      captions,
+      locale = DEFAULT_LOCALES.base,
+      trackDurations,
+      fonts,
       onStatusChange,
       onProgress,
+      onAssetProgress,
       onError
     },
     ref
   ) => {
+    const timeline = useMemo(() => buildTimeline(scenes), [scenes]);
+    const { duration } = timeline;
+    const captionCues = useMemo(
+      () =>
+        captions?.burnIn ? buildCaptionCues(timeline, audio ?? DEFAULT_AUDIO, locale, trackDurations) : [],
+      [audio, captions?.burnIn, locale, timeline, trackDurations]
+    );
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const animationRef = useRef<number>();
-    const imageCacheRef = useRef<HTMLImageElement[] | null>(null);
+    const assetCacheRef = useRef<{ key: string; assets: FrameAssets; progress: AssetProgress } | null>(null);
+    const sourceCacheRef = useRef<AssetCache | null>(null);
+    const loadGenerationRef = useRef(0);
+    const renderingRef = useRef(false);
     const startTimeRef = useRef<number>(0);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const playbackRef = useRef<PlaybackControls | null>(null);
+    const pausedRef = useRef(false);
     const [canvasReady, setCanvasReady] = useState(false);
+    const [rendering, setRendering] = useState(false);
+    const [currentTime, setCurrentTime] = useState(previewTime);
+    const [playing, setPlaying] = useState(false);
+    const [loopScene, setLoopScene] = useState(false);
+    const currentTimeRef = useRef(currentTime);
+    currentTimeRef.current = currentTime;
 
     const notifyStatus = useCallback(
       (status: RenderStatus) => {
@@ -102,136 +205,58 @@ export const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(
       }
     }, []);
 
-    const drawFrame = useCallback(
-      (
-        ctx: CanvasRenderingContext2D,
-        images: HTMLImageElement[],
-        elapsedMs: number,
-        options: {
-          onComplete: () => void;
-        }
-      ) => {
-        const { width, height } = resolution;
-        const totalDurationMs = duration * 1000;
-        const progress = clamp(elapsedMs / totalDurationMs, 0, 1);
-        notifyProgress(progress);
-
-        if (elapsedMs >= totalDurationMs) {
-          options.onComplete();
-          return;
-        }
-
-        ctx.save();
-        ctx.clearRect(0, 0, width, height);
-
-        const elapsedSeconds = elapsedMs / 1000;
-        let accumulated = 0;
-        let sceneIndex = scenes.length - 1;
-
-        for (let i = 0; i < scenes.length; i += 1) {
-          const scene = scenes[i];
-          const sceneStart = accumulated;
-          const sceneEnd = accumulated + scene.duration;
-          if (elapsedSeconds >= sceneStart && elapsedSeconds < sceneEnd) {
-            sceneIndex = i;
-            break;
-          }
-          accumulated += scene.duration;
-        }
-
-        const scene = scenes[sceneIndex];
-        const image = images[sceneIndex];
-        const sceneElapsed = elapsedSeconds - accumulated;
-        const sceneProgress = clamp(sceneElapsed / scene.duration, 0, 1);
-        const zoom = 1 + 0.06 * easeInOutCubic(sceneProgress);
-
-        const baseScale = Math.max(width / image.width, height / image.height) * zoom;
-        const drawWidth = image.width * baseScale;
-        const drawHeight = image.height * baseScale;
-        const drawX = width / 2 - drawWidth / 2;
-        const drawY = height / 2 - drawHeight / 2;
-
-        ctx.filter = 'brightness(1.05) saturate(1.15)';
-        ctx.drawImage(image, drawX, drawY, drawWidth, drawHeight);
-        ctx.filter = 'none';
-
-        const gradient = ctx.createLinearGradient(0, height * 0.45, 0, height);
-        gradient.addColorStop(0, 'rgba(3, 7, 18, 0.05)');
-        gradient.addColorStop(0.65, 'rgba(3, 7, 18, 0.65)');
-        gradient.addColorStop(1, 'rgba(3, 7, 18, 0.92)');
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, 0, width, height);
-
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.12)';
-        ctx.fillRect(60, 60, width - 120, height - 120);
-
-        ctx.strokeStyle = 'rgba(250, 204, 21, 0.45)';
-        ctx.lineWidth = 2;
-        ctx.strokeRect(60, 60, width - 120, height - 120);
-
-        const fadeWindow = Math.min(0.75, scene.duration / 3);
-        const fadeIn = clamp(sceneElapsed / fadeWindow, 0, 1);
-        const fadeOut = clamp((scene.duration - sceneElapsed) / fadeWindow, 0, 1);
-        const textOpacity = Math.min(fadeIn, fadeOut);
-
-        ctx.fillStyle = `rgba(250, 204, 21, ${0.8 * textOpacity})`;
-        ctx.font = '48px "Bebas Neue", "Inter", system-ui';
-        ctx.textBaseline = 'alphabetic';
-        ctx.fillText('Visit Dubai', 110, height - 220);
-
-        ctx.fillStyle = `rgba(255, 255, 255, ${0.92 * textOpacity})`;
-        ctx.font = '72px "Playfair Display", "Inter", serif';
-        ctx.fillText(scene.title, 110, height - 150);
-
-        ctx.fillStyle = `rgba(241, 245, 249, ${0.75 * textOpacity})`;
-        ctx.font = '30px "Inter", sans-serif';
-        wrapText(ctx, scene.subtitle, 110, height - 100, width - 220, 40);
-
-        ctx.fillStyle = 'rgba(148, 163, 184, 0.6)';
-        ctx.font = '22px "Inter", sans-serif';
-        wrapText(ctx, scene.description, 110, height - 60, width - 220, 30);
-
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.12)';
-        ctx.fillRect(110, height - 28, width - 220, 8);
-        ctx.fillStyle = 'rgba(250, 204, 21, 0.8)';
-        ctx.fillRect(110, height - 28, (width - 220) * progress, 8);
-
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.65)';
-        ctx.font = '20px "Inter", sans-serif';
-        ctx.fillText(`${Math.round(progress * 30)} sec`, width - 150, height - 34);
-
-        ctx.restore();
-      },
-      [duration, notifyProgress, resolution, scenes]
+    const frameSettings = useMemo(
+      () => ({ scenes, timeline, resolution, theme, grade, captions, captionCues, locale }),
+      [captionCues, captions, grade, locale, resolution, scenes, theme, timeline]
     );
 
-    const loadImages = useCallback(async () => {
-      if (imageCacheRef.current) return imageCacheRef.current;
-
-      notifyStatus('loading-assets');
+    const drawFrame = useCallback(
+      (ctx: CanvasRenderingContext2D, assets: FrameAssets, elapsedMs: number) =>
+        renderFrame(ctx, frameSettings, assets, elapsedMs),
+      [frameSettings]
+    );
 
-      const loaders = scenes.map(
-        (scene) =>
-          new Promise<HTMLImageElement>((resolve, reject) => {
-            const img = new Image();
-            img.crossOrigin = 'anonymous';
-            img.decoding = 'async';
-            img.onload = () => resolve(img);
-            img.onerror = () => reject(new Error(`Failed to load image ${scene.image}`));
-            img.src = scene.image;
-          })
-      );
+    const loadAssets = useCallback(async (silent = false) => {
+      const logoSrc = theme.logo?.src ?? '';
+      const fontReferences = projectFontReferences(scenes, theme);
+      const customFonts = fonts ?? [];
+      const key = [
+        ...scenes.map((scene) => `${scene.id}:${mediaKey(scene.media)}:${scene.fallback?.src ?? ''}`),
+        ...scenes.flatMap(({ overlays = [] }) => overlayImageSources(overlays)),
+        logoSrc,
+        ...fontReferences.map((reference) => reference.stack),
+        ...customFonts.map((font) => `${font.family}:${font.src}`)
+      ].join('|');
+      const cached = assetCacheRef.current;
+      if (cached?.key === key) {
+        if (!silent) onAssetProgress?.(cached.progress);
+        return cached.assets;
+      }
 
-      const images = await Promise.all(loaders);
-      imageCacheRef.current = images;
-      return images;
-    }, [notifyStatus, scenes]);
+      if (!silent) notifyStatus('loading-assets');
+      sourceCacheRef.current ??= createAssetCache();
+      const cache = sourceCacheRef.current;
+      const generation = ++loadGenerationRef.current;
+
+      // Fonts are awaited with the media so no frame is drawn while a web font is still in flight.
+      const [{ assets, progress }] = await Promise.all([
+        loadSceneAssets(cache, scenes, logoSrc, silent ? undefined : onAssetProgress),
+        loadFonts(fontReferences, customFonts)
+      ]);
+      // An older load that finishes late must not release media the newest one is using.
+      if (generation !== loadGenerationRef.current) return assets;
+      cache.retain(scenes, logoSrc);
+      if (assetCacheRef.current) pauseVideoSources(assetCacheRef.current.assets.sources);
+      assetCacheRef.current = { key, assets, progress };
+      return assets;
+    }, [fonts, notifyStatus, onAssetProgress, scenes, theme]);
 
     const ensureCanvas = useCallback(() => {
       const canvas = canvasRef.current;
       if (!canvas) return;
       const { width, height } = resolution;
-      const dpr = window.devicePixelRatio || 1;
+      // Cap the preview backing store so 4K projects do not allocate a 8K canvas on HiDPI screens.
+      const dpr = Math.min(window.devicePixelRatio || 1, Math.sqrt(MAX_PREVIEW_PIXELS / (width * height)));
       canvas.width = width * dpr;
       canvas.height = height * dpr;
       const ctx = canvas.getContext('2d');
@@ -251,8 +276,84 @@ export const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(
       };
     }, [ensureCanvas, cancelAnimation]);
 
+    useEffect(() => {
+      return () => {
+        abortControllerRef.current?.abort(createAbortError());
+        sourceCacheRef.current?.retain([], '');
+        assetCacheRef.current = null;
+      };
+    }, []);
+
+    useEffect(() => {
+      setPlaying(false);
+      setCurrentTime(previewTime);
+    }, [previewTime]);
+
+    useEffect(() => {
+      if (!playing || rendering) return;
+      const range = loopScene
+        ? findTimelineEntry(timeline, currentTimeRef.current)
+        : { start: 0, end: duration };
+      let frame = 0;
+      let last = performance.now();
+
+      const tick = (now: number) => {
+        let next = currentTimeRef.current + (now - last) / 1000;
+        last = now;
+        if (next >= range.end) {
+          if (!loopScene) {
+            setCurrentTime(duration);
+            setPlaying(false);
+            return;
+          }
+          next = range.start;
+        }
+        setCurrentTime(next);
+        frame = requestAnimationFrame(tick);
+      };
+
+      frame = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(frame);
+    }, [duration, loopScene, playing, rendering, timeline]);
+
+    useEffect(() => {
+      if (!canvasReady || rendering || timeline.issues.length > 0) return;
+      let cancelled = false;
+
+      const time = clamp(currentTime, 0, duration);
+      loadAssets(true)
+        .then(async (assets) => {
+          await syncVideoSources(timeline, assets.sources, time, !playing);
+          const ctx = canvasRef.current?.getContext('2d');
+          if (cancelled || renderingRef.current || !ctx) return;
+          drawFrame(ctx, assets, time * 1000);
+        })
+        .catch(() => {
+          // Missing preview assets are reported when a render is requested.
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [canvasReady, currentTime, drawFrame, duration, loadAssets, playing, rendering, timeline]);
+
+    const togglePlayback = () => {
+      if (!playing && currentTime >= duration) setCurrentTime(0);
+      setPlaying(!playing);
+    };
+
+    const stepFrames = (frames: number) => {
+      setPlaying(false);
+      setCurrentTime(clamp(Math.round(currentTime * fps + frames) / fps, 0, duration));
+    };
+
     const startAnimation = useCallback(
-      (context: CanvasRenderingContext2D, images: HTMLImageElement[], onComplete: () => void) => {
+      (
+        context: CanvasRenderingContext2D,
+        assets: FrameAssets,
+        onComplete: () => void,
+        onFrame?: () => void
+      ): PlaybackControls => {
         cancelAnimation();
         startTimeRef.current = performance.now();
         notifyProgress(0);
@@ -261,123 +362,336 @@ export const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(
         const tick = () => {
           if (!canvasRef.current) return;
           const elapsedMs = performance.now() - startTimeRef.current;
-          drawFrame(context, images, elapsedMs, {
-            onComplete: () => {
-              onComplete();
-              cancelAnimation();
-              notifyStatus('complete');
-              notifyProgress(1);
-            }
-          });
+          if (elapsedMs >= duration * 1000) {
+            onComplete();
+            cancelAnimation();
+            pauseVideoSources(assets.sources);
+            notifyStatus('complete');
+            notifyProgress(1);
+            return;
+          }
+          syncVideoSources(timeline, assets.sources, elapsedMs / 1000, false);
+          drawFrame(context, assets, elapsedMs);
+          onFrame?.();
+          notifyProgress(elapsedMs / (duration * 1000));
           animationRef.current = requestAnimationFrame(tick);
         };
 
         animationRef.current = requestAnimationFrame(tick);
+
+        let pausedAt: number | null = null;
+        return {
+          pause: () => {
+            if (pausedAt !== null) return;
+            pausedAt = performance.now();
+            cancelAnimation();
+            pauseVideoSources(assets.sources);
+          },
+          resume: () => {
+            if (pausedAt === null) return;
+            startTimeRef.current += performance.now() - pausedAt;
+            pausedAt = null;
+            animationRef.current = requestAnimationFrame(tick);
+          }
+        };
       },
-      [cancelAnimation, drawFrame, notifyProgress, notifyStatus]
+      [cancelAnimation, drawFrame, duration, notifyProgress, notifyStatus, timeline]
+    );
+
+    const renderFrameAccurate = useCallback(
+      async (assets: FrameAssets, container: VideoContainer, mix: AudioBuffer | null, signal: AbortSignal) => {
+        const previewCanvas = canvasRef.current;
+        const previewCtx = previewCanvas?.getContext('2d');
+        if (!previewCtx) throw new Error('Unable to access canvas context.');
+
+        const { width, height } = resolution;
+        const frameCanvas = document.createElement('canvas');
+        frameCanvas.width = width;
+        frameCanvas.height = height;
+        const frameCtx = frameCanvas.getContext('2d');
+        if (!frameCtx) throw new Error('Unable to create an offscreen frame canvas.');
+
+        cancelAnimation();
+        notifyProgress(0);
+        notifyStatus('rendering');
+
+        const gate = createPauseGate();
+        playbackRef.current = gate;
+        signal.addEventListener('abort', gate.resume, { once: true });
+
+        const result = await encodeFrames({
+          canvas: frameCanvas,
+          container,
+          width,
+          height,
+          fps,
+          totalFrames: Math.round(duration * fps),
+          bitrate: bitrateFor(width, height),
+          audio: mix,
+          drawFrame: async (_frameIndex, timestampMs) => {
+            await syncVideoSources(timeline, assets.sources, timestampMs / 1000, true);
+            drawFrame(frameCtx, assets, timestampMs);
+            previewCtx.drawImage(frameCanvas, 0, 0, width, height);
+          },
+          onProgress: notifyProgress,
+          signal,
+          waitUntilResumed: gate.wait
+        });
+
+        notifyStatus('complete');
+        notifyProgress(1);
+        return result;
+      },
+      [cancelAnimation, drawFrame, duration, fps, notifyProgress, notifyStatus, resolution, timeline]
+    );
+
+    const renderRealtime = useCallback(
+      async (assets: FrameAssets, container: VideoContainer, mix: AudioBuffer | null, signal: AbortSignal) => {
+        const previewCtx = canvasRef.current?.getContext('2d');
+        if (!previewCtx) throw new Error('Unable to access canvas context.');
+
+        // The preview's backing store follows the screen's pixel ratio, so the recording comes from a canvas
+        // at exactly the output size and the preview only mirrors it.
+        const { width, height } = resolution;
+        const frameCanvas = document.createElement('canvas');
+        frameCanvas.width = width;
+        frameCanvas.height = height;
+        const frameCtx = frameCanvas.getContext('2d');
+        if (!frameCtx) throw new Error('Unable to create an offscreen frame canvas.');
+
+        const mimeType = buildMimeType(container);
+        const stream = frameCanvas.captureStream(fps);
+        const audioContext = mix ? new AudioContext({ sampleRate: mix.sampleRate }) : null;
+        let audioSource: AudioBufferSourceNode | null = null;
+        if (audioContext && mix) {
+          const destination = audioContext.createMediaStreamDestination();
+          audioSource = audioContext.createBufferSource();
+          audioSource.buffer = mix;
+          audioSource.connect(destination);
+          destination.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+        }
+        const releaseStream = () => {
+          stream.getTracks().forEach((track) => track.stop());
+          audioContext?.close().catch(() => undefined);
+        };
+        const mediaRecorder = new MediaRecorder(stream, {
+          mimeType,
+          videoBitsPerSecond: bitrateFor(width, height)
+        });
+        const chunks: Blob[] = [];
+
+        const resultPromise = new Promise<{ blob: Blob; mimeType: string }>((resolve, reject) => {
+          mediaRecorder.ondataavailable = (event) => {
+            if (event.data && event.data.size > 0) {
+              chunks.push(event.data);
+            }
+          };
+
+          // Stopping the recorder settles the promise through onstop, which rejects once aborted.
+          const handleAbort = () => {
+            cancelAnimation();
+            if (mediaRecorder.state !== 'inactive') {
+              mediaRecorder.stop();
+            } else {
+              releaseStream();
+              reject(signal.reason);
+            }
+          };
+          signal.addEventListener('abort', handleAbort, { once: true });
+
+          mediaRecorder.onerror = (event) => {
+            const recorderError = (event as { error?: DOMException }).error;
+            signal.removeEventListener('abort', handleAbort);
+            cancelAnimation();
+            releaseStream();
+            reject(recorderError ?? new Error('Recording failed.'));
+          };
+
+          mediaRecorder.onstop = () => {
+            signal.removeEventListener('abort', handleAbort);
+            releaseStream();
+            if (signal.aborted) {
+              reject(signal.reason);
+              return;
+            }
+            const producedMime = mediaRecorder.mimeType || mimeType;
+            resolve({ blob: new Blob(chunks, { type: producedMime }), mimeType: producedMime });
+          };
+        });
+
+        await audioContext?.resume();
+        if (signal.aborted) return resultPromise;
+        mediaRecorder.start();
+        audioSource?.start();
+        const animation = startAnimation(
+          frameCtx,
+          assets,
+          () => {
+            if (mediaRecorder.state !== 'inactive') {
+              mediaRecorder.stop();
+            }
+          },
+          () => previewCtx.drawImage(frameCanvas, 0, 0, width, height)
+        );
+        playbackRef.current = {
+          pause: () => {
+            animation.pause();
+            if (mediaRecorder.state === 'recording') mediaRecorder.pause();
+            audioContext?.suspend().catch(() => undefined);
+          },
+          resume: () => {
+            audioContext?.resume().catch(() => undefined);
+            if (mediaRecorder.state === 'paused') mediaRecorder.resume();
+            animation.resume();
+          }
+        };
+
+        return resultPromise;
+      },
+      [cancelAnimation, fps, resolution, startAnimation]
     );
 
     useImperativeHandle(
       ref,
       () => ({
-        renderVideo: async () => {
+        renderVideo: async ({
+          mode = WEB_CODECS_SUPPORT ? 'frame-accurate' : 'realtime',
+          container = 'webm',
+          signal
+        } = {}) => {
           if (!canvasRef.current) throw new Error('Canvas is not ready yet.');
-          if (!MEDIA_RECORDER_SUPPORT) throw new Error('MediaRecorder API is not supported in this browser.');
+          if (renderingRef.current) throw new Error('A render is already in progress.');
+          if (timeline.issues.length > 0) throw new Error(timeline.issues.join('\n'));
+          if (mode === 'frame-accurate' && !WEB_CODECS_SUPPORT) {
+            throw new Error('WebCodecs is not supported in this browser.');
+          }
+          if (mode === 'realtime' && !MEDIA_RECORDER_SUPPORT) {
+            throw new Error('MediaRecorder API is not supported in this browser.');
+          }
 
+          const controller = new AbortController();
+          const forwardAbort = () => controller.abort(createAbortError());
+          if (signal?.aborted) forwardAbort();
+          signal?.addEventListener('abort', forwardAbort, { once: true });
+          abortControllerRef.current = controller;
+          pausedRef.current = false;
+          renderingRef.current = true;
+          setRendering(true);
+          setPlaying(false);
           try {
-            const images = await loadImages();
-            const canvas = canvasRef.current;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) throw new Error('Unable to access canvas context.');
-
-            const mimeType = buildMimeType();
-            const stream = canvas.captureStream(fps);
-            const mediaRecorder = new MediaRecorder(stream, {
-              mimeType,
-              videoBitsPerSecond: 5_000_000
-            });
-            const chunks: Blob[] = [];
-
-            const resultPromise = new Promise<{ blob: Blob; mimeType: string }>((resolve, reject) => {
-              mediaRecorder.ondataavailable = (event) => {
-                if (event.data && event.data.size > 0) {
-                  chunks.push(event.data);
-                }
-              };
-
-              mediaRecorder.onerror = (event) => {
-                const recorderError = (event as { error?: DOMException }).error;
-                cancelAnimation();
-                stream.getTracks().forEach((track) => track.stop());
-                notifyStatus('error');
-                onError?.(recorderError?.message ?? 'Recording error encountered.');
-                reject(recorderError ?? new Error('Recording failed.'));
-              };
-
-              mediaRecorder.onstop = () => {
-                stream.getTracks().forEach((track) => track.stop());
-                resolve({ blob: new Blob(chunks, { type: mimeType }), mimeType });
-              };
-            });
-
-            mediaRecorder.start();
-            startAnimation(ctx, images, () => {
-              if (mediaRecorder.state !== 'inactive') {
-                mediaRecorder.stop();
-              }
-            });
-
-            return await resultPromise;
+            const assets = await loadAssets();
+            controller.signal.throwIfAborted();
+            const mix = audio ? await renderAudioMix(audio, timeline) : null;
+            controller.signal.throwIfAborted();
+            return mode === 'frame-accurate'
+              ? await renderFrameAccurate(assets, container, mix, controller.signal)
+              : await renderRealtime(assets, container, mix, controller.signal);
           } catch (error) {
+            if (isAbortError(error)) {
+              notifyStatus('cancelled');
+              notifyProgress(0);
+              throw error;
+            }
             notifyStatus('error');
             const message =
               error instanceof Error ? error.message : 'Unknown error while rendering the video.';
             onError?.(message);
             throw error;
+          } finally {
+            signal?.removeEventListener('abort', forwardAbort);
+            abortControllerRef.current = null;
+            playbackRef.current = null;
+            renderingRef.current = false;
+            setRendering(false);
           }
         },
-        isMediaRecorderSupported: MEDIA_RECORDER_SUPPORT
+        cancel: () => {
+          abortControllerRef.current?.abort(createAbortError());
+        },
+        pause: () => {
+          if (!playbackRef.current || pausedRef.current) return;
+          pausedRef.current = true;
+          playbackRef.current.pause();
+          notifyStatus('paused');
+        },
+        resume: () => {
+          if (!playbackRef.current || !pausedRef.current) return;
+          pausedRef.current = false;
+          playbackRef.current.resume();
+          notifyStatus('rendering');
+        },
+        isMediaRecorderSupported: MEDIA_RECORDER_SUPPORT,
+        isWebCodecsSupported: WEB_CODECS_SUPPORT
       }),
-      [cancelAnimation, fps, loadImages, onError, notifyStatus, startAnimation]
+      [
+        audio,
+        loadAssets,
+        onError,
+        notifyProgress,
+        notifyStatus,
+        renderFrameAccurate,
+        renderRealtime,
+        timeline
+      ]
     );
 
     return (
-      <div
-        style={{
-          position: 'relative',
-          width: '100%',
-          aspectRatio: '16 / 9',
-          borderRadius: '24px',
-          overflow: 'hidden',
-          border: '1px solid var(--border)',
-          boxShadow: '0 24px 60px rgba(15, 23, 42, 0.45)',
-          background:
-            'radial-gradient(circle at top, rgba(14,165,233,0.12), transparent 55%), rgba(2,6,23,1)'
-        }}
-      >
-        <canvas
-          ref={canvasRef}
+      <div style={{ display: 'grid', gap: '0.85rem' }}>
+        <div
           style={{
-            width: '100%',
-            height: '100%',
-            display: 'block'
+            position: 'relative',
+            width: `min(100%, calc(70vh * ${resolution.width / resolution.height}))`,
+            margin: '0 auto',
+            aspectRatio: `${resolution.width} / ${resolution.height}`,
+            borderRadius: '24px',
+            overflow: 'hidden',
+            border: '1px solid var(--border)',
+            boxShadow: '0 24px 60px rgba(15, 23, 42, 0.45)',
+            background:
+              'radial-gradient(circle at top, rgba(14,165,233,0.12), transparent 55%), rgba(2,6,23,1)'
           }}
-          aria-label="Dubai tourism cinematic canvas"
-        />
-        {!canvasReady && (
-          <div
+        >
+          <canvas
+            ref={canvasRef}
             style={{
-              position: 'absolute',
-              inset: 0,
-              display: 'grid',
-              placeItems: 'center',
-              background: 'rgba(2, 6, 23, 0.85)',
-              color: 'rgba(248, 250, 252, 0.85)',
-              fontSize: '1.1rem'
+              width: '100%',
+              height: '100%',
+              display: 'block'
             }}
-          >
-            Preparing canvas…
-          </div>
+            aria-label="Reel preview canvas"
+          />
+          {!canvasReady && (
+            <div
+              style={{
+                position: 'absolute',
+                inset: 0,
+                display: 'grid',
+                placeItems: 'center',
+                background: 'rgba(2, 6, 23, 0.85)',
+                color: 'rgba(248, 250, 252, 0.85)',
+                fontSize: '1.1rem'
+              }}
+            >
+              Preparing canvas…
+            </div>
+          )}
+        </div>
+        {controls && (
+          <PreviewTransport
+            currentTime={currentTime}
+            duration={duration}
+            fps={fps}
+            playing={playing}
+            loopScene={loopScene}
+            disabled={rendering || !canvasReady}
+            onTogglePlay={togglePlayback}
+            onSeek={(time) => {
+              setPlaying(false);
+              setCurrentTime(time);
+            }}
+            onStep={stepFrames}
+            onToggleLoop={() => setLoopScene(!loopScene)}
+          />
         )}
       </div>
     );
@@ -386,28 +700,21 @@ export const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(
 
 VideoCanvas.displayName = 'VideoCanvas';
 
-function wrapText(
-  context: CanvasRenderingContext2D,
-  text: string,
-  x: number,
-  y: number,
-  maxWidth: number,
-  lineHeight: number
-) {
-  const words = text.split(' ');
-  let line = '';
-  let lineY = y;
-
-  for (let n = 0; n < words.length; n += 1) {
-    const testLine = `${line}${words[n]} `;
-    const metrics = context.measureText(testLine);
-    if (metrics.width > maxWidth && n > 0) {
-      context.fillText(line.trim(), x, lineY);
-      line = `${words[n]} `;
-      lineY += lineHeight;
-    } else {
-      line = testLine;
-    }
-  }
-  context.fillText(line.trim(), x, lineY);
+// Frame-accurate renders block on the gate between frames while paused.
+function createPauseGate(): PlaybackControls & { wait: () => Promise<void> } {
+  let release: (() => void) | null = null;
+  let gate: Promise<void> | null = null;
+  return {
+    pause: () => {
+      gate ??= new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    },
+    resume: () => {
+      release?.();
+      release = null;
+      gate = null;
+    },
+    wait: () => gate ?? Promise.resolve()
+  };
 }
@@ -1,71 +1,412 @@
 'use client';
 
-import { useEffect, useMemo, useRef, useState } from 'react';
-import { VideoCanvas, type RenderStatus, type SceneConfig, type VideoCanvasHandle } from './VideoCanvas';
-
-const VIDEO_DURATION_SECONDS = 30;
-const FPS = 30;
-
-const SCENES: SceneConfig[] = [
-  {
-    title: 'Sunrise at Burj Khalifa',
-    subtitle: 'Witness the city ignite in gold from the tallest tower on Earth.',
-    description: 'Capture breathtaking vistas as dawn paints the Dubai skyline in amber hues.',
-    image: '/assets/burj-khalifa.jpg',
-    start: 0,
-    duration: 6
-  },
-  {
-    title: 'Arabian Desert Dunes',
-    subtitle: 'Ride the winds across endless dunes bathed in desert light.',
-    description: 'Feel the adrenaline of a desert safari, camel treks, and sandboarding adventures.',
-    image: '/assets/desert-safari.jpg',
-    start: 6,
-    duration: 6
-  },
-  {
-    title: 'Dubai Creek Heritage',
-    subtitle: 'Sail past souks and wind towers where tradition meets modern flair.',
-    description: 'Glide along the creek on an abra as spices and perfumes fill the evening air.',
-    image: '/assets/dubai-creek.jpg',
-    start: 12,
-    duration: 6
-  },
-  {
-    title: 'Iconic Palm Jumeirah',
-    subtitle: 'Discover man-made marvels framed by turquoise Arabian Gulf waters.',
-    description: 'Luxury resorts, skydiving thrills, and oceanside dining define the Palm experience.',
-    image: '/assets/palm-jumeirah.jpg',
-    start: 18,
-    duration: 6
-  },
-  {
-    title: 'Dubai Marina Nights',
-    subtitle: 'Immerse yourself in neon reflections and waterfront glamour.',
-    description: 'Indulge in rooftop lounges, yacht cruises, and Michelin-star cuisine after dark.',
-    image: '/assets/dubai-marina.jpg',
-    start: 24,
-    duration: 6
-  }
-];
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import AudioPanel from './AudioPanel';
+import CaptionsPanel from './CaptionsPanel';
+import LocaleSwitcher from './LocaleSwitcher';
+import MediaLibrary from './MediaLibrary';
+import GradingPanel from './GradingPanel';
+import HistoryPanel from './HistoryPanel';
+import ProjectPanel from './ProjectPanel';
+import RenderQueue from './RenderQueue';
+import SceneEditor from './SceneEditor';
+import TemplateGallery from './TemplateGallery';
+import ThemePanel from './ThemePanel';
+import {
+  VideoCanvas,
+  type RenderMode,
+  type RenderStatus,
+  type SceneConfig,
+  type VideoCanvasHandle
+} from './VideoCanvas';
+import { isAbortError } from '../utils/abort';
+import { auditProjectAssets, type AssetIssue } from '../utils/assetAudit';
+import type { AssetProgress } from '../utils/assetCache';
+import {
+  buildCaptionCues,
+  captionBlob,
+  transcribedTracks,
+  type CaptionCue,
+  type CaptionFormat,
+  type TrackDurations
+} from '../utils/captions';
+import { downloadBlob, slugify } from '../utils/files';
+import { createCustomFont } from '../utils/fonts';
+import {
+  CONTAINER_EXTENSIONS,
+  WEB_CODECS_SUPPORT,
+  containerFromMimeType,
+  type VideoContainer
+} from '../utils/frameEncoder';
+import {
+  createHistory,
+  currentProject,
+  describeScenesChange,
+  moveHistory,
+  recordEdit,
+  type ProjectHistory
+} from '../utils/history';
+import { RESOLUTION_PRESETS, findResolutionPreset } from '../utils/layout';
+import { projectLocales, type LocaleCode } from '../utils/locales';
+import { audioDuration, listAssets, type MediaAsset } from '../utils/mediaLibrary';
+import { parseProject, serializeProject, validateProject, type ProjectDocument } from '../utils/project';
+import {
+  INDEXED_DB_SUPPORT,
+  clearAutosave,
+  loadAutosave,
+  loadUnreadableAutosave,
+  saveAutosave
+} from '../utils/projectStorage';
+import {
+  deleteTemplate,
+  listTemplates,
+  saveTemplate,
+  type UnreadableTemplate
+} from '../utils/templateStorage';
+import {
+  BUILT_IN_TEMPLATES,
+  createTemplate,
+  instantiateTemplate,
+  templateFillsFrom,
+  type ReelTemplate
+} from '../utils/templates';
+import type { Theme } from '../utils/themes';
+import { buildTimeline, formatSeconds } from '../utils/timeline';
+
+// The studio opens on the first built-in template, the city tour.
+const DEFAULT_PROJECT = BUILT_IN_TEMPLATES[0].project;
+
+const AUTOSAVE_DELAY_MS = 800;
+const ASSET_AUDIT_DELAY_MS = 500;
 
 const statusCopy: Record<RenderStatus, string> = {
   idle: 'Ready to render a fresh cinematic cut.',
-  'loading-assets': 'Curating Dubai highlights…',
-  rendering: 'Composing the 30-second journey…',
+  'loading-assets': 'Loading scene media…',
+  rendering: 'Composing your cinematic journey…',
+  paused: 'Render paused. Resume when you are ready.',
   complete: 'Video rendered successfully. Preview or download below.',
+  cancelled: 'Render cancelled.',
   error: 'Something went wrong while rendering.'
 };
 
+function assetProgressCopy({ completed, failed, total }: AssetProgress) {
+  const fallbacks = failed > 0 ? `, ${failed} replaced by a fallback` : '';
+  return `${completed} of ${total} assets${fallbacks}`;
+}
+
+const renderModeLabels: Record<RenderMode, string> = {
+  'frame-accurate': 'Frame-accurate (WebCodecs)',
+  realtime: 'Real-time capture (MediaRecorder)'
+};
+
+const containerLabels: Record<VideoContainer, string> = {
+  mp4: 'MP4 (H.264)',
+  webm: 'WebM (VP9/VP8)'
+};
+
+const selectStyle = {
+  background: 'rgba(15, 23, 42, 0.65)',
+  color: 'rgba(226, 232, 240, 0.85)',
+  border: '1px solid rgba(148, 163, 184, 0.25)',
+  borderRadius: '999px',
+  padding: '0.75rem 1.1rem',
+  fontSize: '0.9rem',
+  fontFamily: 'inherit'
+} as const;
+
+const secondaryButtonStyle = {
+  ...selectStyle,
+  cursor: 'pointer'
+} as const;
+
+const sectionStyle = {
+  display: 'grid',
+  gap: '0.9rem',
+  background: 'rgba(15, 23, 42, 0.45)',
+  borderRadius: '20px',
+  padding: '1.6rem 1.5rem',
+  border: '1px solid rgba(148, 163, 184, 0.25)'
+} as const;
+
+const inlineLabelStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '0.5rem',
+  fontSize: '0.85rem',
+  color: 'rgba(203, 213, 225, 0.85)'
+} as const;
+
+const sectionHeadingStyle = {
+  margin: 0,
+  fontSize: '1.1rem',
+  color: 'rgba(244, 244, 245, 0.85)',
+  letterSpacing: '0.05em'
+} as const;
+
+const NON_TEXT_INPUT_TYPES = new Set(['checkbox', 'radio', 'range', 'color', 'button', 'file']);
+
+// Text fields keep the browser's own undo for the characters being typed.
+function isTextEntry(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+  return target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.has(target.type);
+}
+
 const mediaRecorderSupported = typeof window !== 'undefined' && typeof window.MediaRecorder !== 'undefined';
+const renderingSupported = WEB_CODECS_SUPPORT || mediaRecorderSupported;
 
 export default function VideoStudio() {
   const canvasRef = useRef<VideoCanvasHandle>(null);
   const [status, setStatus] = useState<RenderStatus>('idle');
   const [progress, setProgress] = useState(0);
+  const [assetProgress, setAssetProgress] = useState<AssetProgress | null>(null);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [mimeType, setMimeType] = useState<string>('video/webm');
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<ProjectHistory>(() => createHistory(DEFAULT_PROJECT, 'New project'));
+  const [selectedSceneId, setSelectedSceneId] = useState<string | null>(DEFAULT_PROJECT.scenes[0].id);
+  const [container, setContainer] = useState<VideoContainer>('mp4');
+  const [renderMode, setRenderMode] = useState<RenderMode>(WEB_CODECS_SUPPORT ? 'frame-accurate' : 'realtime');
+  const [renderedCues, setRenderedCues] = useState<CaptionCue[]>([]);
+  const [activeLocale, setActiveLocale] = useState<LocaleCode>(DEFAULT_PROJECT.locales.base);
+  const [renderedLocale, setRenderedLocale] = useState<LocaleCode>(DEFAULT_PROJECT.locales.base);
+  const [previewCaptions, setPreviewCaptions] = useState(true);
+  const [autosave, setAutosave] = useState<{ state: 'saved' | 'failed'; at: number } | null>(null);
+  const [restored, setRestored] = useState(!INDEXED_DB_SUPPORT);
+  const [unreadableAutosave, setUnreadableAutosave] = useState(false);
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [assetIssues, setAssetIssues] = useState<AssetIssue[]>([]);
+  const [customTemplates, setCustomTemplates] = useState<ReelTemplate[]>([]);
+  const [unreadableTemplates, setUnreadableTemplates] = useState<UnreadableTemplate[]>([]);
+  const [trackDurations, setTrackDurations] = useState<TrackDurations>(new Map());
+
+  // Bumped on every pointer press and release, so one drag of a control forms one undo group.
+  const gestureRef = useRef(0);
+
+  // The project lives only in the history; render status, progress and selection stay outside it.
+  const project = currentProject(history);
+  const { name: projectName, settings, scenes, audio, theme, captions, locales, fonts, grade } = project;
+
+  const editProject = (patch: Partial<ProjectDocument>, label: string) => {
+    setHistory((previous) =>
+      recordEdit(previous, { ...currentProject(previous), ...patch }, label, `${label}#${gestureRef.current}`)
+    );
+  };
+
+  // Opening another project is undoable too; restoring the autosave instead starts a fresh history.
+  const applyProject = useCallback((document: ProjectDocument, label: string, restart = false) => {
+    setHistory((previous) =>
+      restart ? createHistory(document, label) : recordEdit(previous, document, label)
+    );
+    setActiveLocale(document.locales.base);
+    setSelectedSceneId(document.scenes[0]?.id ?? null);
+    setRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (!INDEXED_DB_SUPPORT) return;
+    let cancelled = false;
+    loadAutosave()
+      .then((record) => {
+        if (cancelled) return;
+        if (!record) {
+          setRestored(true);
+          return;
+        }
+        applyProject(record.project, 'Restore autosave', true);
+        setAutosave({ state: 'saved', at: record.savedAt });
+      })
+      // Autosave stays paused until the message is dismissed or another project is opened, so the
+      // default reel never replaces work that merely failed to load.
+      .catch((caught) => {
+        if (cancelled) return;
+        const message = caught instanceof Error ? caught.message : 'Unknown error.';
+        setUnreadableAutosave(true);
+        setError(
+          `Could not restore the autosaved project. ${message}\n` +
+            'Download the unreadable copy to repair it. Autosave resumes once you dismiss this message or ' +
+            'start a new project.'
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyProject]);
+
+  useEffect(() => {
+    if (!restored || !INDEXED_DB_SUPPORT) return;
+    const timer = window.setTimeout(() => {
+      saveAutosave(project)
+        .then(() => setAutosave({ state: 'saved', at: Date.now() }))
+        .catch(() => setAutosave({ state: 'failed', at: Date.now() }));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [project, restored]);
+
+  useEffect(() => {
+    const nextGesture = () => {
+      gestureRef.current += 1;
+    };
+    window.addEventListener('pointerdown', nextGesture, true);
+    window.addEventListener('pointerup', nextGesture, true);
+    return () => {
+      window.removeEventListener('pointerdown', nextGesture, true);
+      window.removeEventListener('pointerup', nextGesture, true);
+    };
+  }, []);
+
+  // Undo and redo can remove the selected scene or the language being edited.
+  useEffect(() => {
+    if (selectedSceneId !== null && !scenes.some((scene) => scene.id === selectedSceneId)) {
+      setSelectedSceneId(scenes[0]?.id ?? null);
+    }
+  }, [scenes, selectedSceneId]);
+
+  useEffect(() => {
+    if (!projectLocales(locales).includes(activeLocale)) setActiveLocale(locales.base);
+  }, [activeLocale, locales]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listTemplates()
+      .then(({ templates, unreadable }) => {
+        if (cancelled) return;
+        setCustomTemplates(templates);
+        setUnreadableTemplates(unreadable);
+      })
+      .catch((caught) => {
+        if (cancelled) return;
+        const message = caught instanceof Error ? caught.message : 'Unknown error.';
+        setError(`Could not load saved templates. ${message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    listAssets()
+      .then((stored) => {
+        if (!cancelled) setAssets(stored);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      auditProjectAssets(scenes, audio, settings.resolution, theme, fonts)
+        .then((issues) => {
+          if (!cancelled) setAssetIssues(issues);
+        })
+        .catch(() => undefined);
+    }, ASSET_AUDIT_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [assets, audio, fonts, scenes, settings.resolution, theme]);
+
+  const handleExportProject = () => {
+    const blob = new Blob([serializeProject(project)], { type: 'application/json' });
+    downloadBlob(blob, `${slugify(project.name)}.json`);
+  };
+
+  const handleDownloadUnreadableAutosave = async () => {
+    try {
+      const raw = await loadUnreadableAutosave();
+      if (raw === null) throw new Error('The copy is no longer stored.');
+      const blob = new Blob([JSON.stringify(raw, null, 2)], { type: 'application/json' });
+      downloadBlob(blob, 'unreadable-autosave.json');
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Unknown error.';
+      setError(`Could not download the unreadable autosave. ${message}`);
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      applyProject(parseProject(await file.text()), `Open ${file.name}`);
+      setError(null);
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Unable to open the project file.';
+      setError(message);
+    }
+  };
+
+  const handleResetProject = () => {
+    applyProject(DEFAULT_PROJECT, 'New project');
+    clearAutosave().catch(() => undefined);
+  };
+
+  const handleUseTemplate = (template: ReelTemplate, keepContent: boolean) => {
+    const fills = keepContent ? templateFillsFrom(scenes) : [];
+    applyProject(instantiateTemplate(template, fills), `Use ${template.name} template`);
+    setError(null);
+  };
+
+  // Validated up front: a template that cannot be read back would otherwise vanish from the gallery.
+  const handleSaveTemplate = async (name: string, description: string) => {
+    try {
+      const template = createTemplate(validateProject(project), name, description);
+      await saveTemplate(template);
+      setCustomTemplates([...customTemplates, template]);
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Unknown error.';
+      setError(`Could not save the template. ${message}`);
+    }
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    setCustomTemplates(customTemplates.filter((template) => template.id !== id));
+    setUnreadableTemplates(unreadableTemplates.filter((template) => template.id !== id));
+    deleteTemplate(id).catch(() => undefined);
+  };
+
+  const handleScenesChange = (next: SceneConfig[]) => {
+    const label = describeScenesChange(scenes, next);
+    const sceneIds = new Set(next.map((scene) => scene.id));
+    if (!audio.tracks.some((track) => track.sceneId && !sceneIds.has(track.sceneId))) {
+      editProject({ scenes: next }, label);
+      return;
+    }
+    const tracks = audio.tracks.map((track) =>
+      track.sceneId && !sceneIds.has(track.sceneId) ? { ...track, sceneId: undefined } : track
+    );
+    editProject({ scenes: next, audio: { ...audio, tracks } }, label);
+  };
+
+  const handleAddFont = (asset: MediaAsset) => {
+    if (!assets.some((candidate) => candidate.id === asset.id)) setAssets([...assets, asset]);
+    const font = createCustomFont(asset);
+    if (fonts.some((candidate) => candidate.src === font.src)) return;
+    editProject({ fonts: [...fonts, font] }, 'Add font');
+  };
+
+  // Kicker layers that still show the theme's kicker follow it when the theme changes.
+  const handleThemeChange = (next: Theme) => {
+    if (next.kicker === theme.kicker) {
+      editProject({ theme: next }, 'Change theme');
+      return;
+    }
+    const kickered = scenes.map((scene) => ({
+      ...scene,
+      layers: scene.layers.map((layer) =>
+        layer.style === 'kicker' && layer.text === theme.kicker ? { ...layer, text: next.kicker } : layer
+      )
+    }));
+    editProject({ theme: next, scenes: kickered }, 'Change theme');
+  };
+
+  const autosaveLabel = autosave
+    ? autosave.state === 'saved'
+      ? `Autosaved ${new Date(autosave.at).toLocaleTimeString()}`
+      : 'Autosave failed'
+    : null;
 
   useEffect(() => {
     return () => {
@@ -73,25 +414,95 @@ export default function VideoStudio() {
     };
   }, [downloadUrl]);
 
-  const timelineMarkers = useMemo(
-    () =>
-      SCENES.map((scene) => ({
-        ...scene,
-        end: scene.start + scene.duration
-      })),
-    []
+  // Joined into a key so volume or fade edits do not look the durations up again.
+  const transcribedSources = transcribedTracks(audio)
+    .map((track) => track.src)
+    .join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    const sources = transcribedSources ? [...new Set(transcribedSources.split('\n'))] : [];
+    Promise.all(sources.map(async (src) => [src, await audioDuration(src)] as const)).then((entries) => {
+      if (cancelled) return;
+      setTrackDurations(
+        new Map(entries.filter((entry): entry is readonly [string, number] => entry[1] !== null))
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [transcribedSources]);
+
+  const timeline = useMemo(() => buildTimeline(scenes, settings.duration), [scenes, settings.duration]);
+  const captionCues = useMemo(
+    () => buildCaptionCues(timeline, audio, activeLocale, trackDurations),
+    [activeLocale, audio, timeline, trackDurations]
   );
+  const captionTrackUrl = useMemo(
+    () => (renderedCues.length > 0 ? URL.createObjectURL(captionBlob(renderedCues, 'vtt')) : null),
+    [renderedCues]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (captionTrackUrl) URL.revokeObjectURL(captionTrackUrl);
+    };
+  }, [captionTrackUrl]);
+  const totalDuration = formatSeconds(timeline.duration);
+  const timelineInvalid = timeline.issues.length > 0;
+  const assetsMissing = assetIssues.some((issue) => issue.severity === 'error');
+
+  const previewTime = useMemo(() => {
+    const entry =
+      timeline.entries.find((candidate) => candidate.scene.id === selectedSceneId) ?? timeline.entries[0];
+    return entry ? (entry.start + entry.end) / 2 : 0;
+  }, [selectedSceneId, timeline]);
+
+  const busy = status === 'rendering' || status === 'loading-assets' || status === 'paused';
+  const resolutionPreset = findResolutionPreset(settings.resolution);
+
+  const handleMoveHistory = (index: number) => setHistory((previous) => moveHistory(previous, index));
+
+  useEffect(() => {
+    if (busy) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextEntry(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      event.preventDefault();
+      const step = key === 'y' || event.shiftKey ? 1 : -1;
+      setHistory((previous) => moveHistory(previous, previous.index + step));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [busy]);
+
+  const handleDownloadCaptions = (format: CaptionFormat) => {
+    const suffix = renderedLocale === locales.base ? '' : `-${renderedLocale}`;
+    downloadBlob(captionBlob(renderedCues, format), `${slugify(projectName)}${suffix}.${format}`);
+  };
 
   const handleRender = async () => {
     if (!canvasRef.current) return;
     setError(null);
     setDownloadUrl(null);
+    setAssetProgress(null);
     try {
-      const { blob, mimeType: producedMime } = await canvasRef.current.renderVideo();
+      const issues = await auditProjectAssets(scenes, audio, settings.resolution, theme, fonts);
+      setAssetIssues(issues);
+      if (issues.some((issue) => issue.severity === 'error')) {
+        setError('Some scenes reference media that cannot be loaded. Fix the flagged assets and try again.');
+        return;
+      }
+      const { blob, mimeType: producedMime } = await canvasRef.current.renderVideo({ mode: renderMode, container });
       const blobUrl = URL.createObjectURL(blob);
       setMimeType(producedMime);
       setDownloadUrl(blobUrl);
+      // Captions are snapshotted with the video so later edits do not drift out of sync with it.
+      setRenderedCues(captionCues);
+      setRenderedLocale(activeLocale);
     } catch (caught) {
+      if (isAbortError(caught)) return;
       const message = caught instanceof Error ? caught.message : 'Unable to render the video.';
       setError(message);
     }
@@ -126,7 +537,7 @@ export default function VideoStudio() {
             color: 'rgba(186, 230, 253, 0.85)'
           }}
         >
-          30-Second Dubai Tourism Featurette
+          {totalDuration}-Second Reel
         </p>
         <h1
           style={{
@@ -136,7 +547,7 @@ export default function VideoStudio() {
             marginBottom: '1rem'
           }}
         >
-          Craft Your Cinematic Dubai Journey
+          {projectName.trim() || 'Untitled reel'}
         </h1>
         <p
           style={{
@@ -146,18 +557,39 @@ export default function VideoStudio() {
             color: 'rgba(226, 232, 240, 0.75)'
           }}
         >
-          Render a polished 30-second tourism reel showcasing the emirate&apos;s icons—from sunrise views
-          atop Burj Khalifa to neon-soaked nights at Dubai Marina—all generated in-browser.
+          Render a polished {totalDuration}-second reel from your scenes, copy and brand theme. Start from a
+          template or build your own—all generated in-browser.
         </p>
       </header>
 
+      <div style={{ marginBottom: '1.5rem' }}>
+        <ProjectPanel
+          name={projectName}
+          autosaveLabel={autosaveLabel}
+          disabled={busy}
+          onNameChange={(name) => editProject({ name }, 'Rename project')}
+          onExport={handleExportProject}
+          onImport={handleImportProject}
+          onReset={handleResetProject}
+        />
+      </div>
+
       <VideoCanvas
         ref={canvasRef}
-        scenes={SCENES}
-        duration={VIDEO_DURATION_SECONDS}
-        fps={FPS}
+        scenes={scenes}
+        fps={settings.fps}
+        resolution={settings.resolution}
+        previewTime={previewTime}
+        audio={audio}
+        locale={activeLocale}
+        trackDurations={trackDurations}
+        fonts={fonts}
+        theme={theme}
+        grade={grade}
+        captions={captions}
         onStatusChange={setStatus}
         onProgress={setProgress}
+        onAssetProgress={setAssetProgress}
         onError={setError}
       />
 
@@ -186,7 +618,7 @@ export default function VideoStudio() {
             <button
               type="button"
               onClick={handleRender}
-              disabled={status === 'rendering' || status === 'loading-assets' || !mediaRecorderSupported}
+              disabled={busy || !renderingSupported || timelineInvalid || assetsMissing}
               style={{
                 background: 'linear-gradient(135deg, rgba(14,165,233,0.9), rgba(99,102,241,0.9))',
                 color: 'white',
@@ -196,15 +628,88 @@ export default function VideoStudio() {
                 fontWeight: 600,
                 border: 'none',
                 borderRadius: '999px',
-                cursor: mediaRecorderSupported ? 'pointer' : 'not-allowed',
-                opacity: status === 'rendering' || status === 'loading-assets' ? 0.65 : 1,
+                cursor: renderingSupported ? 'pointer' : 'not-allowed',
+                opacity: busy ? 0.65 : 1,
                 transition: 'transform 0.2s ease, box-shadow 0.2s ease',
                 boxShadow: '0 18px 35px rgba(14, 165, 233, 0.35)'
               }}
             >
-              {status === 'rendering' || status === 'loading-assets' ? 'Rendering…' : 'Render 30s Video'}
+              {busy ? (status === 'paused' ? 'Paused' : 'Rendering…') : `Render ${totalDuration}s Video`}
             </button>
-            <p style={{ color: 'rgba(226, 232, 240, 0.7)', fontSize: '0.95rem' }}>{statusCopy[status]}</p>
+            {busy && (
+              <>
+                <button
+                  type="button"
+                  onClick={() =>
+                    status === 'paused' ? canvasRef.current?.resume() : canvasRef.current?.pause()
+                  }
+                  disabled={status === 'loading-assets'}
+                  style={secondaryButtonStyle}
+                >
+                  {status === 'paused' ? 'Resume' : 'Pause'}
+                </button>
+                <button type="button" onClick={() => canvasRef.current?.cancel()} style={secondaryButtonStyle}>
+                  Cancel
+                </button>
+              </>
+            )}
+            <select
+              value={renderMode}
+              onChange={(event) => setRenderMode(event.target.value as RenderMode)}
+              disabled={busy}
+              aria-label="Render mode"
+              style={selectStyle}
+            >
+              <option value="frame-accurate" disabled={!WEB_CODECS_SUPPORT}>
+                {renderModeLabels['frame-accurate']}
+              </option>
+              <option value="realtime" disabled={!mediaRecorderSupported}>
+                {renderModeLabels.realtime}
+              </option>
+            </select>
+            <select
+              value={container}
+              onChange={(event) => setContainer(event.target.value as VideoContainer)}
+              disabled={busy}
+              aria-label="Output format"
+              style={selectStyle}
+            >
+              {(Object.keys(containerLabels) as VideoContainer[]).map((option) => (
+                <option key={option} value={option}>
+                  {containerLabels[option]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={resolutionPreset?.id ?? 'custom'}
+              onChange={(event) => {
+                const preset = RESOLUTION_PRESETS.find((candidate) => candidate.id === event.target.value);
+                if (preset) {
+                  const resolution = { width: preset.width, height: preset.height };
+                  editProject({ settings: { ...settings, resolution } }, 'Change output size');
+                }
+              }}
+              disabled={busy}
+              aria-label="Output size"
+              style={selectStyle}
+            >
+              {RESOLUTION_PRESETS.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+              {!resolutionPreset && (
+                <option value="custom" disabled>
+                  Custom · {settings.resolution.width}×{settings.resolution.height}
+                </option>
+              )}
+            </select>
+            <p style={{ color: 'rgba(226, 232, 240, 0.7)', fontSize: '0.95rem' }}>
+              {statusCopy[status]}
+              {assetProgress &&
+                (status === 'loading-assets' || assetProgress.failed > 0) &&
+                ` (${assetProgressCopy(assetProgress)})`}
+            </p>
           </div>
 
           <div
@@ -236,14 +741,37 @@ export default function VideoStudio() {
                 border: '1px solid rgba(248, 113, 113, 0.25)',
                 padding: '0.85rem 1.1rem',
                 borderRadius: '16px',
-                color: 'rgba(254, 202, 202, 0.9)' 
+                color: 'rgba(254, 202, 202, 0.9)',
+                whiteSpace: 'pre-line'
               }}
             >
               {error}
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginTop: '0.6rem' }}>
+                {unreadableAutosave && (
+                  <button
+                    type="button"
+                    onClick={handleDownloadUnreadableAutosave}
+                    style={{ ...secondaryButtonStyle, padding: '0.4rem 0.9rem', fontSize: '0.8rem' }}
+                  >
+                    Download unreadable autosave
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setError(null);
+                    setRestored(true);
+                    setUnreadableAutosave(false);
+                  }}
+                  style={{ ...secondaryButtonStyle, padding: '0.4rem 0.9rem', fontSize: '0.8rem' }}
+                >
+                  Dismiss
+                </button>
+              </div>
             </div>
           )}
 
-          {!mediaRecorderSupported && (
+          {!renderingSupported && (
             <div
               style={{
                 background: 'rgba(248, 250, 252, 0.08)',
@@ -253,8 +781,8 @@ export default function VideoStudio() {
                 color: 'rgba(226, 232, 240, 0.85)'
               }}
             >
-              Your browser does not support the MediaRecorder API required for in-browser video rendering.
-              Try using the latest version of Chrome or Edge on desktop.
+              Your browser supports neither WebCodecs nor the MediaRecorder API required for in-browser video
+              rendering. Try using the latest version of Chrome or Edge on desktop.
             </div>
           )}
         </div>
@@ -285,12 +813,21 @@ export default function VideoStudio() {
               }}
             >
               <source src={downloadUrl} type={mimeType} />
+              {previewCaptions && captionTrackUrl && (
+                <track
+                  kind="captions"
+                  src={captionTrackUrl}
+                  srcLang={renderedLocale}
+                  label="Captions"
+                  default
+                />
+              )}
               Your browser does not support the video tag.
             </video>
-            <div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.75rem' }}>
               <a
                 href={downloadUrl}
-                download="dubai-tourism-featurette.webm"
+                download={`${slugify(projectName)}.${CONTAINER_EXTENSIONS[containerFromMimeType(mimeType)]}`}
                 style={{
                   display: 'inline-flex',
                   alignItems: 'center',
@@ -305,58 +842,215 @@ export default function VideoStudio() {
               >
                 Download Video
               </a>
+              {renderedCues.length > 0 && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => handleDownloadCaptions('srt')}
+                    style={secondaryButtonStyle}
+                  >
+                    Captions (.srt)
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDownloadCaptions('vtt')}
+                    style={secondaryButtonStyle}
+                  >
+                    Captions (.vtt)
+                  </button>
+                  <label style={inlineLabelStyle}>
+                    <input
+                      type="checkbox"
+                      checked={previewCaptions}
+                      onChange={(event) => setPreviewCaptions(event.target.checked)}
+                    />
+                    Show captions in preview
+                  </label>
+                </>
+              )}
             </div>
           </div>
         )}
 
-        <div
-          style={{
-            display: 'grid',
-            gap: '0.9rem',
-            background: 'rgba(15, 23, 42, 0.45)',
-            borderRadius: '20px',
-            padding: '1.6rem 1.5rem',
-            border: '1px solid rgba(148, 163, 184, 0.25)'
-          }}
-        >
-          <h2 style={{ margin: 0, fontSize: '1.1rem', color: 'rgba(244, 244, 245, 0.85)', letterSpacing: '0.05em' }}>
-            Scene Timeline
-          </h2>
-          <div
-            style={{
-              display: 'grid',
-              gap: '1rem'
+        <div style={sectionStyle}>
+          <h2 style={sectionHeadingStyle}>History</h2>
+          <HistoryPanel history={history} disabled={busy} onMove={handleMoveHistory} />
+        </div>
+
+        <div style={sectionStyle}>
+          <h2 style={sectionHeadingStyle}>Templates</h2>
+          <TemplateGallery
+            custom={customTemplates}
+            unreadable={unreadableTemplates}
+            disabled={busy}
+            onUse={handleUseTemplate}
+            onSave={handleSaveTemplate}
+            onDelete={handleDeleteTemplate}
+          />
+        </div>
+
+        <div style={sectionStyle}>
+          <h2 style={sectionHeadingStyle}>Render Queue</h2>
+          <RenderQueue project={project} mode={renderMode} disabled={timelineInvalid || assetsMissing} />
+        </div>
+
+        <div style={sectionStyle}>
+          <h2 style={sectionHeadingStyle}>Media Library</h2>
+          <MediaLibrary
+            assets={assets}
+            selectedScene={scenes.find((scene) => scene.id === selectedSceneId) ?? null}
+            disabled={busy}
+            onAssetsChange={setAssets}
+            onUseInScene={(media) => {
+              const next = scenes.map((scene) =>
+                scene.id === selectedSceneId ? { ...scene, media } : scene
+              );
+              editProject({ scenes: next }, 'Assign media');
             }}
-          >
-            {timelineMarkers.map((scene) => (
-              <div
-                key={scene.title}
-                style={{
-                  display: 'grid',
-                  gap: '0.35rem',
-                  background: 'rgba(30, 41, 59, 0.4)',
-                  borderRadius: '16px',
-                  padding: '1rem 1.2rem',
-                  border: '1px solid rgba(59, 130, 246, 0.15)'
+            onAddToSoundtrack={(track) =>
+              editProject({ audio: { ...audio, tracks: [...audio.tracks, track] } }, 'Add soundtrack track')
+            }
+            onAddFont={handleAddFont}
+          />
+        </div>
+
+        <div style={sectionStyle}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '1rem' }}>
+            <h2 style={{ ...sectionHeadingStyle, flex: '1 1 auto' }}>Scene Timeline</h2>
+            <label style={inlineLabelStyle}>
+              <input
+                type="checkbox"
+                checked={settings.duration === null}
+                disabled={busy}
+                onChange={(event) => {
+                  const duration = event.target.checked ? null : timeline.duration;
+                  editProject({ settings: { ...settings, duration } }, 'Change reel length');
                 }}
-              >
-                <div
+              />
+              Fit reel to scenes
+            </label>
+            <label style={inlineLabelStyle}>
+              Reel length (s)
+              <input
+                type="number"
+                min={1}
+                step={0.5}
+                value={settings.duration ?? timeline.duration}
+                disabled={busy || settings.duration === null}
+                onChange={(event) => {
+                  const value = Number(event.target.value);
+                  if (Number.isFinite(value) && value > 0) {
+                    editProject({ settings: { ...settings, duration: value } }, 'Change reel length');
+                  }
+                }}
+                style={{ ...selectStyle, width: 96, padding: '0.4rem 0.75rem' }}
+              />
+            </label>
+          </div>
+          {timelineInvalid && (
+            <div
+              role="alert"
+              style={{
+                background: 'rgba(239, 68, 68, 0.08)',
+                border: '1px solid rgba(248, 113, 113, 0.25)',
+                padding: '0.75rem 1rem',
+                borderRadius: '14px',
+                color: 'rgba(254, 202, 202, 0.9)',
+                fontSize: '0.9rem'
+              }}
+            >
+              {timeline.issues.map((issue) => (
+                <p key={issue} style={{ margin: 0 }}>
+                  {issue}
+                </p>
+              ))}
+            </div>
+          )}
+          {assetIssues.length > 0 && (
+            <div
+              role={assetsMissing ? 'alert' : 'status'}
+              style={{
+                background: assetsMissing ? 'rgba(239, 68, 68, 0.08)' : 'rgba(234, 179, 8, 0.08)',
+                border: '1px solid',
+                borderColor: assetsMissing ? 'rgba(248, 113, 113, 0.25)' : 'rgba(250, 204, 21, 0.25)',
+                padding: '0.75rem 1rem',
+                borderRadius: '14px',
+                fontSize: '0.9rem'
+              }}
+            >
+              {assetIssues.map((issue) => (
+                <p
+                  key={issue.message}
                   style={{
-                    display: 'flex',
-                    alignItems: 'baseline',
-                    justifyContent: 'space-between',
-                    gap: '1rem'
+                    margin: 0,
+                    color:
+                      issue.severity === 'error' ? 'rgba(254, 202, 202, 0.9)' : 'rgba(254, 240, 138, 0.9)'
                   }}
                 >
-                  <p style={{ margin: 0, fontSize: '1.1rem', fontWeight: 600 }}>{scene.title}</p>
-                  <span style={{ fontSize: '0.85rem', color: 'rgba(148, 163, 184, 0.75)' }}>
-                    {scene.start.toString().padStart(2, '0')}s – {scene.end.toString().padStart(2, '0')}s
-                  </span>
-                </div>
-                <p style={{ margin: 0, color: 'rgba(203, 213, 225, 0.72)', fontSize: '0.95rem' }}>{scene.subtitle}</p>
-              </div>
-            ))}
-          </div>
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+          )}
+          <LocaleSwitcher
+            locales={locales}
+            active={activeLocale}
+            disabled={busy}
+            onSelect={setActiveLocale}
+            onChange={(next) => editProject({ locales: next }, 'Edit languages')}
+          />
+          <SceneEditor
+            scenes={scenes}
+            selectedId={selectedSceneId}
+            locales={locales}
+            locale={activeLocale}
+            grade={grade}
+            disabled={busy}
+            onSelect={setSelectedSceneId}
+            onChange={handleScenesChange}
+          />
+        </div>
+
+        <div style={sectionStyle}>
+          <h2 style={sectionHeadingStyle}>Captions</h2>
+          <CaptionsPanel
+            captions={captions}
+            cues={captionCues}
+            projectName={projectName}
+            disabled={busy}
+            onChange={(next) => editProject({ captions: next }, 'Edit captions')}
+          />
+        </div>
+
+        <div style={sectionStyle}>
+          <h2 style={sectionHeadingStyle}>Soundtrack</h2>
+          <AudioPanel
+            audio={audio}
+            scenes={scenes}
+            disabled={busy}
+            onChange={(next) => editProject({ audio: next }, 'Edit soundtrack')}
+          />
+        </div>
+
+        <div style={sectionStyle}>
+          <h2 style={sectionHeadingStyle}>Colour Grade</h2>
+          <GradingPanel
+            grade={grade}
+            disabled={busy}
+            onChange={(next) => editProject({ grade: next }, 'Adjust colour grade')}
+          />
+        </div>
+
+        <div style={sectionStyle}>
+          <h2 style={sectionHeadingStyle}>Brand Theme</h2>
+          <ThemePanel
+            theme={theme}
+            fonts={fonts}
+            disabled={busy}
+            onChange={handleThemeChange}
+            onFontsChange={(next) => editProject({ fonts: next }, 'Edit fonts')}
+            onFontImported={handleAddFont}
+          />
         </div>
       </section>
     </div>
@@ -0,0 +1,7 @@
+export function createAbortError(message = 'Render cancelled.') {
+  return new DOMException(message, 'AbortError');
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
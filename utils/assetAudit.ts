@@ -0,0 +1,123 @@
+import type { SceneConfig } from '../components/VideoCanvas';
+import type { AudioSettings } from './audioMix';
+import { loadFonts, projectFontReferences, type CustomFont } from './fonts';
+import type { Resolution } from './layout';
+import { loadImage, type ImageMedia, type VideoMedia } from './media';
+import { assetIdFromUrl, getAsset } from './mediaLibrary';
+import { DEFAULT_MOTION } from './motion';
+import { overlayQrCode } from './overlays';
+import type { Theme } from './themes';
+
+export type AssetIssue = {
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+// Sources may be stretched this far past their native size before a scene is flagged as soft.
+const UPSCALE_TOLERANCE = 1.1;
+
+// Only the size is needed, so the clip loads its metadata alone and the element lets go of it right after
+// instead of buffering the whole video.
+function measureVideo(src: string) {
+  return new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'metadata';
+    const release = () => {
+      video.removeAttribute('src');
+      video.load();
+    };
+    video.onloadedmetadata = () => {
+      resolve({ width: video.videoWidth, height: video.videoHeight });
+      release();
+    };
+    video.onerror = () => {
+      release();
+      reject(new Error(`${src} could not be loaded`));
+    };
+    video.src = src;
+  });
+}
+
+async function measureMedia(media: ImageMedia | VideoMedia) {
+  const id = assetIdFromUrl(media.src);
+  if (id) {
+    const asset = await getAsset(id);
+    if (!asset) throw new Error('its media library file is missing');
+    if (asset.kind !== media.type) throw new Error(`the library file is ${asset.kind}, not ${media.type}`);
+    return { width: asset.width ?? 0, height: asset.height ?? 0 };
+  }
+  if (media.type === 'video') return measureVideo(media.src);
+  const image = await loadImage(media.src).catch(() => null);
+  if (!image) throw new Error(`${media.src} could not be loaded`);
+  return { width: image.naturalWidth, height: image.naturalHeight };
+}
+
+async function auditScene(scene: SceneConfig, index: number, resolution: Resolution): Promise<AssetIssue[]> {
+  const { media } = scene;
+  if (media.type !== 'image' && media.type !== 'video') return [];
+  const label = `Scene ${index + 1} (“${scene.title || 'Untitled scene'}”)`;
+  if (!media.src.trim()) return [{ severity: 'error', message: `${label} has no ${media.type} selected.` }];
+
+  let size: { width: number; height: number };
+  try {
+    size = await measureMedia(media);
+  } catch (caught) {
+    const reason = caught instanceof Error ? caught.message : 'it could not be loaded';
+    // A configured fallback keeps the render going, so the scene only needs a look rather than a fix.
+    if (scene.fallback) {
+      return [{ severity: 'warning', message: `${label}: ${reason}, so its fallback is shown instead.` }];
+    }
+    return [{ severity: 'error', message: `${label}: ${reason}.` }];
+  }
+
+  const motion = scene.motion ?? DEFAULT_MOTION;
+  const zoom = Math.max(motion.start.zoom, motion.end.zoom);
+  const upscale =
+    Math.max(resolution.width / Math.max(1, size.width), resolution.height / Math.max(1, size.height)) * zoom;
+  if (upscale <= UPSCALE_TOLERANCE) return [];
+  return [
+    {
+      severity: 'warning',
+      message:
+        `${label}: the ${media.type} is ${size.width}×${size.height}, so it is upscaled ` +
+        `${upscale.toFixed(1)}× at ${resolution.width}×${resolution.height} and may look soft.`
+    }
+  ];
+}
+
+// Overlays that would silently draw nothing, or less than the author expects.
+function auditOverlays(scene: SceneConfig, index: number): AssetIssue[] {
+  const label = `Scene ${index + 1} (“${scene.title || 'Untitled scene'}”)`;
+  return (scene.overlays ?? []).flatMap((overlay): AssetIssue[] => {
+    if (overlay.type === 'logo' && !overlay.src.trim()) {
+      return [{ severity: 'warning', message: `${label}: a logo overlay has no image selected.` }];
+    }
+    const url = overlay.type === 'end-card' && overlay.qrCode ? overlay.url.trim() : '';
+    if (url && !overlayQrCode(url)) {
+      return [{ severity: 'warning', message: `${label}: the end card URL is too long for a QR code.` }];
+    }
+    return [];
+  });
+}
+
+// Checked before rendering so a missing file is reported against its scene instead of failing mid-render.
+export async function auditProjectAssets(
+  scenes: SceneConfig[],
+  audio: AudioSettings,
+  resolution: Resolution,
+  theme: Theme,
+  fonts: CustomFont[]
+): Promise<AssetIssue[]> {
+  const sceneIssues = await Promise.all(scenes.map((scene, index) => auditScene(scene, index, resolution)));
+  const audioIssues = await Promise.all(
+    audio.tracks.map(async (track): Promise<AssetIssue[]> => {
+      const id = assetIdFromUrl(track.src);
+      if (!id || (await getAsset(id))) return [];
+      return [{ severity: 'error', message: `Audio “${track.name}”: its media library file is missing.` }];
+    })
+  );
+  const fontIssues = await loadFonts(projectFontReferences(scenes, theme), fonts);
+  const overlayIssues = scenes.flatMap(auditOverlays);
+  return [...sceneIssues.flat(), ...overlayIssues, ...audioIssues.flat(), ...fontIssues];
+}
@@ -0,0 +1,133 @@
+import type { SceneConfig } from '../components/VideoCanvas';
+import { decodeImage, loadVideo, type ImageSource, type MediaSource } from './media';
+import { overlayImageSources } from './overlays';
+
+type CachedSource = ImageSource | HTMLVideoElement;
+
+export type AssetProgress = {
+  completed: number;
+  failed: number;
+  total: number;
+};
+
+export type AssetCache = ReturnType<typeof createAssetCache>;
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500;
+
+async function withRetries<T>(load: () => Promise<T>) {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await load();
+    } catch (caught) {
+      if (attempt >= MAX_ATTEMPTS) throw caught;
+      await new Promise((resolve) => window.setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+function release(source: CachedSource) {
+  if (source instanceof HTMLVideoElement) {
+    source.pause();
+    source.removeAttribute('src');
+    source.load();
+  } else if (typeof ImageBitmap !== 'undefined' && source instanceof ImageBitmap) {
+    source.close();
+  }
+}
+
+// Loaded sources keyed by URL, so an edited scene reloads only its own media and the rest are reused.
+// Failed loads are dropped rather than cached, so the next load tries them again.
+export function createAssetCache() {
+  const entries = new Map<string, Promise<CachedSource>>();
+
+  const load = <T extends CachedSource>(key: string, loader: () => Promise<T>) => {
+    let pending = entries.get(key) as Promise<T> | undefined;
+    if (!pending) {
+      pending = withRetries(loader);
+      entries.set(key, pending);
+      const settled = pending;
+      settled.catch(() => {
+        if (entries.get(key) === settled) entries.delete(key);
+      });
+    }
+    return pending;
+  };
+
+  return {
+    image: (src: string) => load(`image:${src}`, () => decodeImage(src)),
+    // Video elements carry their own playback position, so each scene gets its own even for a shared file.
+    video: (sceneId: string, src: string) => load(`video:${sceneId}:${src}`, () => loadVideo(src)),
+    // Releases everything the given scenes and logo no longer use.
+    retain(scenes: SceneConfig[], logoSrc: string) {
+      const keys = new Set(logoSrc ? [`image:${logoSrc}`] : []);
+      scenes.forEach(({ id, media, fallback, overlays = [] }) => {
+        if (media.type === 'image') keys.add(`image:${media.src}`);
+        if (media.type === 'video') keys.add(`video:${id}:${media.src}`);
+        if (fallback?.src) keys.add(`image:${fallback.src}`);
+        overlayImageSources(overlays).forEach((src) => keys.add(`image:${src}`));
+      });
+      entries.forEach((pending, key) => {
+        if (keys.has(key)) return;
+        entries.delete(key);
+        pending.then(release, () => undefined);
+      });
+    }
+  };
+}
+
+// Loads each scene's media on its own, so one broken URL costs that scene its picture rather than the whole
+// render: a scene that still fails after retries shows its fallback image, or null for its fallback colour.
+// Overlay images that fail are left out of `overlayImages`, so only that overlay goes missing.
+export async function loadSceneAssets(
+  cache: AssetCache,
+  scenes: SceneConfig[],
+  logoSrc: string,
+  onProgress?: (progress: AssetProgress) => void
+) {
+  const mediaCount = scenes.filter(({ media }) => media.type === 'image' || media.type === 'video').length;
+  const overlaySrcs = [...new Set(scenes.flatMap(({ overlays = [] }) => overlayImageSources(overlays)))];
+  const progress: AssetProgress = {
+    completed: 0,
+    failed: 0,
+    total: mediaCount + overlaySrcs.length + (logoSrc ? 1 : 0)
+  };
+  onProgress?.({ ...progress });
+  const settle = <T>(pending: Promise<T>, fallback: () => Promise<T>) =>
+    pending
+      .catch(() => {
+        progress.failed += 1;
+        return fallback();
+      })
+      .finally(() => {
+        progress.completed += 1;
+        onProgress?.({ ...progress });
+      });
+
+  const [sources, logo, overlayEntries] = await Promise.all([
+    Promise.all(
+      scenes.map(({ id, media, fallback }): Promise<MediaSource> => {
+        if (media.type !== 'image' && media.type !== 'video') return Promise.resolve(null);
+        const primary = media.type === 'image' ? cache.image(media.src) : cache.video(id, media.src);
+        return settle<MediaSource>(primary, () =>
+          fallback?.src ? cache.image(fallback.src).catch(() => null) : Promise.resolve(null)
+        );
+      })
+    ),
+    logoSrc
+      ? settle<ImageSource | null>(cache.image(logoSrc), () => Promise.resolve(null))
+      : Promise.resolve(null),
+    Promise.all(
+      overlaySrcs.map((src) =>
+        settle<ImageSource | null>(cache.image(src), () => Promise.resolve(null)).then(
+          (image) => [src, image] as const
+        )
+      )
+    )
+  ]);
+  const images = new Map<string, ImageSource>();
+  overlayEntries.forEach(([src, image]) => {
+    if (image) images.set(src, image);
+  });
+  return { assets: { sources, logo, overlayImages: images }, progress };
+}
@@ -0,0 +1,228 @@
+import { createId } from './ids';
+import { resolveMediaUrl } from './mediaLibrary';
+import type { Timeline } from './timeline';
+
+export type AudioTrackKind = 'music' | 'narration';
+
+export type AudioTrack = {
+  id: string;
+  name: string;
+  src: string;
+  kind: AudioTrackKind;
+  // When set, `offset` is measured from the start of that scene instead of the start of the reel.
+  sceneId?: string;
+  offset: number;
+  volume: number;
+  fadeIn: number;
+  fadeOut: number;
+  loop: boolean;
+  // Spoken text of a narration track, used for caption export.
+  transcript?: string;
+};
+
+export type DuckingSettings = {
+  enabled: boolean;
+  level: number;
+  ramp: number;
+};
+
+export type AudioSettings = {
+  tracks: AudioTrack[];
+  ducking: DuckingSettings;
+};
+
+export const DEFAULT_AUDIO: AudioSettings = {
+  tracks: [],
+  ducking: { enabled: true, level: 0.3, ramp: 0.4 }
+};
+
+export function createAudioTrack(name: string, src: string, kind: AudioTrackKind): AudioTrack {
+  return {
+    id: createId('audio'),
+    name,
+    src,
+    kind,
+    offset: 0,
+    volume: kind === 'music' ? 0.7 : 1,
+    fadeIn: kind === 'music' ? 1 : 0,
+    fadeOut: kind === 'music' ? 2 : 0,
+    loop: kind === 'music'
+  };
+}
+
+// A negative offset places the track before its anchor (or before the reel starts), so playback begins that
+// far into the file rather than at its start. `position` is where the file's first second would fall.
+export function placeTrack(anchor: number, track: AudioTrack, fileDuration: number, reelDuration: number) {
+  const position = anchor + track.offset;
+  const start = Math.max(0, position);
+  const skipped = start - position;
+  const offset = track.loop && fileDuration > 0 ? skipped % fileDuration : skipped;
+  const end = track.loop ? reelDuration : Math.min(reelDuration, position + fileDuration);
+  return { position, start, end, offset };
+}
+
+export const MIX_SAMPLE_RATE = 48_000;
+export const MIX_CHANNELS = 2;
+
+type ScheduledTrack = {
+  track: AudioTrack;
+  buffer: AudioBuffer;
+  start: number;
+  end: number;
+  // Where playback starts inside the buffer, in seconds.
+  offset: number;
+};
+
+export type ClipAudio = {
+  track: AudioTrack;
+  start: number;
+  end: number;
+  clipIn: number;
+  clipOut: number | null;
+};
+
+async function decodeTrack(context: BaseAudioContext, track: AudioTrack) {
+  const response = await fetch(await resolveMediaUrl(track.src));
+  if (!response.ok) throw new Error(`Failed to load audio "${track.name}" (${response.status}).`);
+  try {
+    return await context.decodeAudioData(await response.arrayBuffer());
+  } catch {
+    throw new Error(`Audio "${track.name}" could not be decoded.`);
+  }
+}
+
+function scheduleTracks(tracks: AudioTrack[], buffers: AudioBuffer[], timeline: Timeline) {
+  const { duration } = timeline;
+  const starts = new Map(timeline.entries.map((entry) => [entry.scene.id, entry.start]));
+  return tracks
+    .map((track, index): ScheduledTrack | null => {
+      const anchor = track.sceneId ? starts.get(track.sceneId) : 0;
+      if (anchor === undefined) return null;
+      const { start, end, offset } = placeTrack(anchor, track, buffers[index].duration, duration);
+      return end > start ? { track, buffer: buffers[index], start, end, offset } : null;
+    })
+    .filter((scheduled): scheduled is ScheduledTrack => scheduled !== null);
+}
+
+// Unmuted video clips play their own sound for the length of their scene and duck music like narration.
+export function collectClipAudio(timeline: Timeline): ClipAudio[] {
+  return timeline.entries.flatMap(({ scene, start, end }) => {
+    const { media } = scene;
+    if (media.type !== 'video' || media.muted || media.volume <= 0 || !media.src) return [];
+    const track: AudioTrack = {
+      id: `clip-${scene.id}`,
+      name: scene.title || 'Video clip',
+      src: media.src,
+      kind: 'narration',
+      offset: 0,
+      volume: media.volume,
+      fadeIn: 0,
+      fadeOut: 0,
+      loop: false
+    };
+    return [{ track, start, end, clipIn: media.in, clipOut: media.out }];
+  });
+}
+
+async function scheduleClips(context: BaseAudioContext, clips: ClipAudio[]) {
+  const scheduled = await Promise.all(
+    clips.map(async (clip): Promise<ScheduledTrack | null> => {
+      // Clips without an audio stream fail to decode; they simply stay silent.
+      const buffer = await decodeTrack(context, clip.track).catch(() => null);
+      if (!buffer) return null;
+      const clipOut = Math.min(clip.clipOut ?? buffer.duration, buffer.duration);
+      const end = Math.min(clip.end, clip.start + clipOut - clip.clipIn);
+      if (end <= clip.start) return null;
+      return { track: clip.track, buffer, start: clip.start, end, offset: clip.clipIn };
+    })
+  );
+  return scheduled.filter((item): item is ScheduledTrack => item !== null);
+}
+
+function applyEnvelope(gain: GainNode, scheduled: ScheduledTrack) {
+  const { track, start, end } = scheduled;
+  const length = end - start;
+  const fadeIn = Math.min(track.fadeIn, length / 2);
+  const fadeOut = Math.min(track.fadeOut, length / 2);
+
+  gain.gain.setValueAtTime(fadeIn > 0 ? 0 : track.volume, start);
+  if (fadeIn > 0) gain.gain.linearRampToValueAtTime(track.volume, start + fadeIn);
+  gain.gain.setValueAtTime(track.volume, end - fadeOut);
+  if (fadeOut > 0) gain.gain.linearRampToValueAtTime(0, end);
+}
+
+export function mergeIntervals(intervals: Array<[number, number]>) {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
+
+function applyDucking(gain: GainNode, narration: Array<[number, number]>, ducking: DuckingSettings) {
+  gain.gain.setValueAtTime(1, 0);
+  for (const [start, end] of mergeIntervals(narration)) {
+    const duckStart = Math.max(0, start - ducking.ramp);
+    gain.gain.setValueAtTime(1, duckStart);
+    gain.gain.linearRampToValueAtTime(ducking.level, start);
+    gain.gain.setValueAtTime(ducking.level, end);
+    gain.gain.linearRampToValueAtTime(1, end + ducking.ramp);
+  }
+}
+
+export async function renderAudioMix(audio: AudioSettings, timeline: Timeline): Promise<AudioBuffer | null> {
+  const { duration } = timeline;
+  const tracks = audio.tracks.filter((track) => track.volume > 0 && track.src);
+  const clips = collectClipAudio(timeline);
+  if (tracks.length === 0 && clips.length === 0) return null;
+
+  const context = new OfflineAudioContext(
+    MIX_CHANNELS,
+    Math.ceil(duration * MIX_SAMPLE_RATE),
+    MIX_SAMPLE_RATE
+  );
+  const buffers = await Promise.all(tracks.map((track) => decodeTrack(context, track)));
+  const scheduled = [...scheduleTracks(tracks, buffers, timeline), ...(await scheduleClips(context, clips))];
+
+  const narration = scheduled
+    .filter(({ track }) => track.kind === 'narration')
+    .map(({ start, end }): [number, number] => [start, end]);
+  const musicBus = context.createGain();
+  musicBus.connect(context.destination);
+  if (audio.ducking.enabled && narration.length > 0) applyDucking(musicBus, narration, audio.ducking);
+
+  for (const item of scheduled) {
+    const source = context.createBufferSource();
+    source.buffer = item.buffer;
+    source.loop = item.track.loop;
+    const gain = context.createGain();
+    applyEnvelope(gain, item);
+    source.connect(gain);
+    gain.connect(item.track.kind === 'music' ? musicBus : context.destination);
+    source.start(item.start, item.offset);
+    source.stop(item.end);
+  }
+
+  return context.startRendering();
+}
+
+// Slices the rendered mix into planar AudioData packets covering [fromFrame, toFrame).
+export function sliceAudioData(buffer: AudioBuffer, fromFrame: number, toFrame: number) {
+  const frames = Math.max(0, Math.min(toFrame, buffer.length) - fromFrame);
+  if (frames === 0) return null;
+  const planar = new Float32Array(frames * buffer.numberOfChannels);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    planar.set(buffer.getChannelData(channel).subarray(fromFrame, fromFrame + frames), channel * frames);
+  }
+  return new AudioData({
+    format: 'f32-planar',
+    sampleRate: buffer.sampleRate,
+    numberOfChannels: buffer.numberOfChannels,
+    numberOfFrames: frames,
+    timestamp: Math.round((fromFrame / buffer.sampleRate) * 1_000_000),
+    data: planar
+  });
+}
@@ -0,0 +1,180 @@
+import type { AudioSettings, AudioTrack } from './audioMix';
+import type { OverlayRect } from './layout';
+import { isRtlLocale, type LocaleCode } from './locales';
+import { localizedText, wrapLines, type TextStyle } from './textLayers';
+import type { Theme } from './themes';
+import type { Timeline } from './timeline';
+
+export type CaptionCue = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export type CaptionPosition = 'bottom' | 'top';
+
+// Audio file lengths in seconds, keyed by track src.
+export type TrackDurations = ReadonlyMap<string, number>;
+
+export type CaptionSettings = {
+  burnIn: boolean;
+  position: CaptionPosition;
+  // Pixels at the 720p reference height, like text layer sizes.
+  size: number;
+};
+
+export const DEFAULT_CAPTIONS: CaptionSettings = {
+  burnIn: false,
+  position: 'bottom',
+  size: 28
+};
+
+export const CAPTION_POSITION_LABELS: Record<CaptionPosition, string> = {
+  bottom: 'Bottom',
+  top: 'Top'
+};
+
+// Kickers are branding and descriptions are too long to read as captions, so only these styles are used.
+const CAPTIONED_STYLES: TextStyle[] = ['title', 'subtitle'];
+const SENTENCE_PATTERN = /[^.!?…]+[.!?…]*["')\]]*\s*/g;
+const BAND_PADDING = 12;
+const BAND_MARGIN = 40;
+const LINE_HEIGHT = 1.25;
+
+// A blank line ends a cue in both SRT and WebVTT, so multiline copy keeps single line breaks only.
+function cueText(text: string) {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n\s*\n/g, '\n')
+    .trim();
+}
+
+export function transcribedTracks(audio: AudioSettings): AudioTrack[] {
+  return audio.tracks.filter((track) => track.kind === 'narration' && track.transcript?.trim());
+}
+
+// Transcripts carry no timing of their own, so sentences share the narration's spoken window in proportion
+// to their length. The window is the audio's own length when known; until then it runs to the end of the
+// narration's scene, or of the reel when unanchored. Sentences outside the reel (before time 0 with a
+// negative offset, or past the end) are never shown.
+function narrationCues(audio: AudioSettings, timeline: Timeline, durations: TrackDurations): CaptionCue[] {
+  const scenes = new Map(timeline.entries.map((entry) => [entry.scene.id, entry]));
+  return transcribedTracks(audio).flatMap((track) => {
+    const transcript = track.transcript?.trim() ?? '';
+    const anchor = track.sceneId ? scenes.get(track.sceneId) : null;
+    if (anchor === undefined) return [];
+    const position = (anchor?.start ?? 0) + track.offset;
+    const fileDuration = track.loop ? undefined : durations.get(track.src);
+    const end = fileDuration === undefined ? (anchor?.end ?? timeline.duration) : position + fileDuration;
+    if (Math.min(end, timeline.duration) <= Math.max(0, position)) return [];
+
+    const sentences = (transcript.match(SENTENCE_PATTERN) ?? [transcript]).map((sentence) => sentence.trim());
+    const totalLength = sentences.reduce((sum, sentence) => sum + sentence.length, 0);
+    let cursor = position;
+    return sentences.flatMap((text) => {
+      const cueStart = Math.max(0, cursor);
+      cursor += ((end - position) * text.length) / totalLength;
+      const cueEnd = Math.min(cursor, timeline.duration);
+      return cueEnd > cueStart ? [{ start: cueStart, end: cueEnd, text: cueText(text) }] : [];
+    });
+  });
+}
+
+// Transcripts are only written in the base locale, matching the narration audio they describe.
+export function buildCaptionCues(
+  timeline: Timeline,
+  audio: AudioSettings,
+  locale: LocaleCode,
+  durations: TrackDurations = new Map()
+): CaptionCue[] {
+  const spoken = narrationCues(audio, timeline, durations);
+  // On-screen copy is captioned only where no narration is being transcribed.
+  const onScreen = timeline.entries.flatMap(({ scene, start, end }) => {
+    const text = scene.layers
+      .filter((layer) => CAPTIONED_STYLES.includes(layer.style))
+      .map((layer) => cueText(localizedText(layer, locale)))
+      .filter(Boolean)
+      .join('\n');
+    if (!text || spoken.some((cue) => cue.start < end && cue.end > start)) return [];
+    return [{ start, end, text }];
+  });
+  return [...spoken, ...onScreen].sort((left, right) => left.start - right.start);
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.') {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor(totalMs / 60_000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+export function formatSrt(cues: CaptionCue[]) {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+// WebVTT cue text is markup: `&` and `<` start entities and tags, and `-->` may not appear at all.
+function escapeVttText(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '--&gt;');
+}
+
+export function formatVtt(cues: CaptionCue[]) {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${escapeVttText(cue.text)}\n`
+    )
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+export function captionBlob(cues: CaptionCue[], format: CaptionFormat) {
+  return format === 'srt'
+    ? new Blob([formatSrt(cues)], { type: 'application/x-subrip' })
+    : new Blob([formatVtt(cues)], { type: 'text/vtt' });
+}
+
+export function drawCaptions(
+  context: CanvasRenderingContext2D,
+  cues: CaptionCue[],
+  time: number,
+  settings: CaptionSettings,
+  theme: Theme,
+  safe: OverlayRect,
+  unit: number,
+  locale: LocaleCode
+) {
+  const text = cues
+    .filter((cue) => time >= cue.start && time < cue.end)
+    .map((cue) => cue.text)
+    .join('\n');
+  if (!text) return;
+
+  const fontSize = settings.size * unit;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const padding = BAND_PADDING * unit;
+  context.save();
+  context.font = `${fontSize}px ${theme.fonts.body}`;
+  context.direction = isRtlLocale(locale) ? 'rtl' : 'ltr';
+  const lines = wrapLines(context, text, safe.width * 0.9, locale);
+  const bandHeight = lines.length * lineHeight + padding * 2;
+  const bandWidth = Math.max(...lines.map((line) => context.measureText(line).width)) + padding * 4;
+  const bandY = settings.position === 'top' ? safe.y : safe.y + safe.height - BAND_MARGIN * unit - bandHeight;
+  const centerX = safe.x + safe.width / 2;
+
+  context.fillStyle = 'rgba(2, 6, 23, 0.72)';
+  context.fillRect(centerX - bandWidth / 2, bandY, bandWidth, bandHeight);
+  context.fillStyle = 'rgba(255, 255, 255, 0.95)';
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  lines.forEach((line, index) => context.fillText(line, centerX, bandY + padding + index * lineHeight));
+  context.restore();
+}
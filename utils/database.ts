@@ -0,0 +1,43 @@
+const DB_NAME = 'video-studio';
+const DB_VERSION = 3;
+
+export const PROJECT_STORE = 'projects';
+export const ASSET_STORE = 'assets';
+export const TEMPLATE_STORE = 'templates';
+
+export const INDEXED_DB_SUPPORT = typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+
+export function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'));
+  });
+}
+
+// Version 2 added the media library store alongside the autosaved projects; version 3 added saved templates.
+function openDatabase() {
+  const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE);
+    if (!db.objectStoreNames.contains(ASSET_STORE)) db.createObjectStore(ASSET_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+      db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+    }
+  };
+  return requestToPromise(request);
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(storeName, mode);
+    return await requestToPromise(run(transaction.objectStore(storeName)));
+  } finally {
+    db.close();
+  }
+}
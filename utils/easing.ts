@@ -0,0 +1,37 @@
+export type EasingName = 'linear' | 'cubic' | 'expo' | 'spring';
+
+export const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+export const easeInOutExpo = (t: number) => {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+  return t < 0.5 ? Math.pow(2, 20 * t - 10) / 2 : (2 - Math.pow(2, -20 * t + 10)) / 2;
+};
+
+export const easeOutSpring = (t: number) => {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+  return 1 - Math.exp(-6 * t) * Math.cos(t * Math.PI * 2.5);
+};
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  cubic: easeInOutCubic,
+  expo: easeInOutExpo,
+  spring: easeOutSpring
+};
+
+export const EASING_LABELS: Record<EasingName, string> = {
+  linear: 'Linear',
+  cubic: 'Ease in-out (cubic)',
+  expo: 'Ease in-out (expo)',
+  spring: 'Spring'
+};
+
+export function isEasingName(value: unknown): value is EasingName {
+  return typeof value === 'string' && Object.hasOwn(EASINGS, value);
+}
+
+export const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
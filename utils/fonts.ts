@@ -0,0 +1,198 @@
+import type { SceneConfig } from '../components/VideoCanvas';
+import type { AssetIssue } from './assetAudit';
+import { createId } from './ids';
+import { assetUrl, resolveMediaUrl, type MediaAsset } from './mediaLibrary';
+import { TEXT_STYLE_LABELS } from './textLayers';
+import type { Theme } from './themes';
+
+// An uploaded font file, registered under `family` so theme and layer font stacks can name it.
+export type CustomFont = {
+  id: string;
+  family: string;
+  src: string;
+};
+
+export type FontReference = {
+  label: string;
+  stack: string;
+};
+
+// Families used by the built-in themes, fetched from Google Fonts. Anything else has to be uploaded or
+// installed on the machine doing the rendering.
+export const WEB_FONT_FAMILIES = [
+  'Bebas Neue',
+  'Cinzel',
+  'Cormorant Garamond',
+  'DM Serif Display',
+  'Inter',
+  'Montserrat',
+  'Playfair Display'
+];
+const WEB_FONT_STYLESHEET_URL = 'https://fonts.googleapis.com/css2';
+const GENERIC_FAMILIES = [
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+  'ui-serif',
+  'ui-sans-serif',
+  'ui-monospace',
+  'ui-rounded',
+  'emoji',
+  'math'
+];
+const FONT_LOAD_TIMEOUT_MS = 8000;
+const PROBE_SIZE = 48;
+const PROBE_TEXT = 'AaBbGgQqWw 0123456789';
+
+const stylesheets = new Map<string, Promise<void>>();
+const customFaces = new Map<string, Promise<FontFace>>();
+
+export function fontFamilies(stack: string) {
+  return stack
+    .split(',')
+    .map((family) => family.trim().replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+}
+
+export function isGenericFamily(family: string) {
+  return GENERIC_FAMILIES.includes(family.toLowerCase());
+}
+
+export function webFontStylesheetUrl(family: string) {
+  return `${WEB_FONT_STYLESHEET_URL}?family=${family.replace(/ /g, '+')}&display=block`;
+}
+
+// The family defaults to the file name, e.g. `Acme-Sans.woff2` registers as “Acme Sans”.
+export function createCustomFont(asset: MediaAsset): CustomFont {
+  const family = asset.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ');
+  return { id: createId('font'), family: family.trim() || 'Custom font', src: assetUrl(asset.id) };
+}
+
+export function projectFontReferences(scenes: SceneConfig[], theme: Theme): FontReference[] {
+  const layerFonts = scenes.flatMap((scene, index) =>
+    scene.layers.flatMap((layer) =>
+      layer.font
+        ? [
+            {
+              label: `Scene ${index + 1} ${TEXT_STYLE_LABELS[layer.style].toLowerCase()} font`,
+              stack: layer.font
+            }
+          ]
+        : []
+    )
+  );
+  return [
+    { label: 'Theme kicker font', stack: theme.fonts.kicker },
+    { label: 'Theme title font', stack: theme.fonts.title },
+    { label: 'Theme body font', stack: theme.fonts.body },
+    ...layerFonts
+  ];
+}
+
+function withTimeout<T>(promise: Promise<T>, message: string) {
+  return new Promise<T>((resolve, reject) => {
+    const timer = window.setTimeout(() => reject(new Error(message)), FONT_LOAD_TIMEOUT_MS);
+    promise.then(resolve, reject).finally(() => window.clearTimeout(timer));
+  });
+}
+
+function loadStylesheet(family: string) {
+  let pending = stylesheets.get(family);
+  if (!pending) {
+    pending = new Promise<void>((resolve, reject) => {
+      const link = document.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = webFontStylesheetUrl(family);
+      link.onload = () => resolve();
+      link.onerror = () => {
+        link.remove();
+        reject(new Error(`the stylesheet for “${family}” could not be fetched`));
+      };
+      document.head.appendChild(link);
+    });
+    stylesheets.set(family, pending);
+    // Forget failures so a later load retries once the network is back.
+    pending.catch(() => stylesheets.delete(family));
+  }
+  return pending;
+}
+
+function registerCustomFont(font: CustomFont) {
+  const key = `${font.family}|${font.src}`;
+  let pending = customFaces.get(key);
+  if (!pending) {
+    pending = resolveMediaUrl(font.src).then(async (url) => {
+      const face = await new FontFace(font.family, `url("${url}")`).load();
+      document.fonts.add(face);
+      return face;
+    });
+    customFaces.set(key, pending);
+    pending.catch(() => customFaces.delete(key));
+  }
+  return pending;
+}
+
+// `document.fonts.check` reports unknown families as fine, so availability is measured instead: a family
+// that is really in use sets the probe text differently from at least one generic fallback.
+function isFamilyAvailable(context: CanvasRenderingContext2D, family: string) {
+  return ['monospace', 'serif', 'sans-serif'].some((generic) => {
+    context.font = `${PROBE_SIZE}px ${generic}`;
+    const fallbackWidth = context.measureText(PROBE_TEXT).width;
+    context.font = `${PROBE_SIZE}px "${family}", ${generic}`;
+    return context.measureText(PROBE_TEXT).width !== fallbackWidth;
+  });
+}
+
+// Loads every family the references name, so canvas text never draws while a web font is still in flight,
+// and warns for each reference whose first choice is unavailable and would silently fall back.
+export async function loadFonts(
+  references: FontReference[],
+  customFonts: CustomFont[]
+): Promise<AssetIssue[]> {
+  if (typeof document === 'undefined' || !('fonts' in document)) return [];
+  const issues: AssetIssue[] = [];
+
+  const registered = await Promise.allSettled(customFonts.map(registerCustomFont));
+  registered.forEach((result, index) => {
+    if (result.status === 'fulfilled') return;
+    const reason = result.reason instanceof Error ? result.reason.message : 'the file is unreadable';
+    issues.push({
+      severity: 'warning',
+      message: `Custom font “${customFonts[index].family}” could not be loaded: ${reason}.`
+    });
+  });
+
+  const customFamilies = new Set(customFonts.map((font) => font.family));
+  const families = Array.from(
+    new Set(references.flatMap((reference) => fontFamilies(reference.stack)))
+  ).filter((family) => !isGenericFamily(family));
+  await Promise.allSettled(
+    families
+      .filter((family) => WEB_FONT_FAMILIES.includes(family) && !customFamilies.has(family))
+      .map(loadStylesheet)
+  );
+  await Promise.allSettled(
+    families.map((family) =>
+      withTimeout(document.fonts.load(`${PROBE_SIZE}px "${family}"`, PROBE_TEXT), `“${family}” timed out`)
+    )
+  );
+
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) return issues;
+  const available = new Map(families.map((family) => [family, isFamilyAvailable(context, family)]));
+  references.forEach(({ label, stack }) => {
+    const [primary, ...fallbacks] = fontFamilies(stack);
+    if (!primary || isGenericFamily(primary) || available.get(primary)) return;
+    const fallback = fallbacks.find((family) => isGenericFamily(family) || available.get(family));
+    issues.push({
+      severity: 'warning',
+      message:
+        `${label}: “${primary}” is not available, so ` +
+        `${fallback ? `“${fallback}”` : 'the browser default'} will be used instead.`
+    });
+  });
+  return issues;
+}
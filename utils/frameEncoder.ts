@@ -0,0 +1,285 @@
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from 'mp4-muxer';
+import { ArrayBufferTarget as WebmTarget, Muxer as WebmMuxer } from 'webm-muxer';
+import { sliceAudioData } from './audioMix';
+
+export type VideoContainer = 'webm' | 'mp4';
+
+export type EncodeFramesOptions = {
+  canvas: HTMLCanvasElement;
+  container: VideoContainer;
+  width: number;
+  height: number;
+  fps: number;
+  totalFrames: number;
+  bitrate: number;
+  audio?: AudioBuffer | null;
+  drawFrame: (frameIndex: number, timestampMs: number) => void | Promise<void>;
+  onProgress?: (value: number) => void;
+  signal?: AbortSignal;
+  // Awaited before every frame; resolves immediately unless the render is paused.
+  waitUntilResumed?: () => Promise<void>;
+};
+
+type CodecCandidate = {
+  encoderCodec: string;
+  muxerCodec: string;
+  mimeCodec: string;
+};
+
+type AudioTrackConfig = {
+  candidate: CodecCandidate;
+  config: AudioEncoderConfig;
+};
+
+type ContainerMuxer = {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => ArrayBuffer;
+};
+
+const CONTAINER_CODECS: Record<VideoContainer, CodecCandidate[]> = {
+  webm: [
+    { encoderCodec: 'vp09.00.10.08', muxerCodec: 'V_VP9', mimeCodec: 'vp9' },
+    { encoderCodec: 'vp8', muxerCodec: 'V_VP8', mimeCodec: 'vp8' }
+  ],
+  mp4: [
+    { encoderCodec: 'avc1.640028', muxerCodec: 'avc', mimeCodec: 'avc1.640028' },
+    { encoderCodec: 'avc1.4d0028', muxerCodec: 'avc', mimeCodec: 'avc1.4d0028' },
+    { encoderCodec: 'avc1.42001f', muxerCodec: 'avc', mimeCodec: 'avc1.42001f' },
+    // Level 4.0 tops out at 1080p; 4K output needs level 5.1.
+    { encoderCodec: 'avc1.640033', muxerCodec: 'avc', mimeCodec: 'avc1.640033' }
+  ]
+};
+
+const CONTAINER_AUDIO_CODECS: Record<VideoContainer, CodecCandidate[]> = {
+  webm: [{ encoderCodec: 'opus', muxerCodec: 'A_OPUS', mimeCodec: 'opus' }],
+  mp4: [
+    { encoderCodec: 'mp4a.40.2', muxerCodec: 'aac', mimeCodec: 'mp4a.40.2' },
+    { encoderCodec: 'opus', muxerCodec: 'opus', mimeCodec: 'opus' }
+  ]
+};
+
+export const CONTAINER_EXTENSIONS: Record<VideoContainer, string> = {
+  webm: 'webm',
+  mp4: 'mp4'
+};
+
+const MAX_ENCODE_QUEUE = 8;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const AUDIO_BITRATE = 160_000;
+
+export const WEB_CODECS_SUPPORT = (() => {
+  if (typeof window === 'undefined') return false;
+  return typeof window.VideoEncoder !== 'undefined' && typeof window.VideoFrame !== 'undefined';
+})();
+
+export function containerFromMimeType(mimeType: string): VideoContainer {
+  return mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+}
+
+async function pickCodec(
+  container: VideoContainer,
+  width: number,
+  height: number,
+  fps: number,
+  bitrate: number
+): Promise<{ candidate: CodecCandidate; config: VideoEncoderConfig } | null> {
+  for (const candidate of CONTAINER_CODECS[container]) {
+    const config: VideoEncoderConfig = {
+      codec: candidate.encoderCodec,
+      width,
+      height,
+      bitrate,
+      framerate: fps,
+      ...(container === 'mp4' ? { avc: { format: 'avc' as const } } : {})
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { candidate, config };
+  }
+  return null;
+}
+
+async function pickAudioCodec(
+  container: VideoContainer,
+  audio: AudioBuffer
+): Promise<AudioTrackConfig | null> {
+  if (typeof window.AudioEncoder === 'undefined') return null;
+  for (const candidate of CONTAINER_AUDIO_CODECS[container]) {
+    const config: AudioEncoderConfig = {
+      codec: candidate.encoderCodec,
+      sampleRate: audio.sampleRate,
+      numberOfChannels: audio.numberOfChannels,
+      bitrate: AUDIO_BITRATE
+    };
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    if (supported) return { candidate, config };
+  }
+  return null;
+}
+
+function createMuxer(
+  container: VideoContainer,
+  candidate: CodecCandidate,
+  width: number,
+  height: number,
+  fps: number,
+  audio: AudioTrackConfig | null
+): ContainerMuxer {
+  const audioOptions = audio && {
+    numberOfChannels: audio.config.numberOfChannels,
+    sampleRate: audio.config.sampleRate
+  };
+
+  if (container === 'mp4') {
+    const muxer = new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { codec: 'avc', width, height, frameRate: fps },
+      audio: audioOptions
+        ? { ...audioOptions, codec: audio.candidate.muxerCodec as 'aac' | 'opus' }
+        : undefined,
+      fastStart: 'in-memory'
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return muxer.target.buffer;
+      }
+    };
+  }
+
+  const muxer = new WebmMuxer({
+    target: new WebmTarget(),
+    video: { codec: candidate.muxerCodec, width, height, frameRate: fps },
+    audio: audioOptions ? { ...audioOptions, codec: audio.candidate.muxerCodec } : undefined
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return muxer.target.buffer;
+    }
+  };
+}
+
+// Resolves on the next dequeue, but gives up as soon as the encoder fails or closes or the render is aborted,
+// since none of those will ever dequeue another frame.
+async function waitForDequeue(encoder: VideoEncoder, failure: Promise<never>, signal?: AbortSignal) {
+  signal?.throwIfAborted();
+  if (encoder.state === 'closed') throw new Error('The video encoder closed before the render finished.');
+  let stopListening = () => undefined;
+  const dequeued = new Promise<void>((resolve, reject) => {
+    const onDequeue = () => resolve();
+    const onAbort = () => reject(signal?.reason);
+    encoder.addEventListener('dequeue', onDequeue);
+    signal?.addEventListener('abort', onAbort);
+    stopListening = () => {
+      encoder.removeEventListener('dequeue', onDequeue);
+      signal?.removeEventListener('abort', onAbort);
+    };
+  });
+  try {
+    await Promise.race([dequeued, failure]);
+  } finally {
+    stopListening();
+  }
+}
+
+export async function encodeFrames({
+  canvas,
+  container,
+  width,
+  height,
+  fps,
+  totalFrames,
+  bitrate,
+  audio = null,
+  drawFrame,
+  onProgress,
+  signal,
+  waitUntilResumed
+}: EncodeFramesOptions): Promise<{ blob: Blob; mimeType: string }> {
+  const codec = await pickCodec(container, width, height, fps, bitrate);
+  if (!codec) {
+    throw new Error(`This browser cannot encode ${container.toUpperCase()} video with WebCodecs.`);
+  }
+  const audioCodec = audio ? await pickAudioCodec(container, audio) : null;
+  if (audio && !audioCodec) {
+    throw new Error(`This browser cannot encode audio for ${container.toUpperCase()} with WebCodecs.`);
+  }
+
+  const muxer = createMuxer(container, codec.candidate, width, height, fps, audioCodec);
+
+  let encoderError: Error | null = null;
+  let rejectFailure: (error: Error) => void = () => undefined;
+  const failure = new Promise<never>((_, reject) => {
+    rejectFailure = reject;
+  });
+  failure.catch(() => undefined);
+  const captureError = (error: Error) => {
+    encoderError ??= error;
+    rejectFailure(error);
+  };
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: captureError
+  });
+  encoder.configure(codec.config);
+
+  let audioEncoder: AudioEncoder | null = null;
+  if (audioCodec) {
+    audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: captureError
+    });
+    audioEncoder.configure(audioCodec.config);
+  }
+  let encodedAudioFrames = 0;
+
+  const encodeAudioUntil = (seconds: number) => {
+    if (!audio || !audioEncoder) return;
+    const target = Math.min(audio.length, Math.round(seconds * audio.sampleRate));
+    const data = sliceAudioData(audio, encodedAudioFrames, target);
+    if (!data) return;
+    audioEncoder.encode(data);
+    data.close();
+    encodedAudioFrames = target;
+  };
+
+  const frameDurationUs = 1_000_000 / fps;
+  const keyFrameInterval = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_SECONDS));
+
+  try {
+    for (let frameIndex = 0; frameIndex < totalFrames; frameIndex += 1) {
+      if (encoderError) throw encoderError;
+      await waitUntilResumed?.();
+      signal?.throwIfAborted();
+
+      await drawFrame(frameIndex, (frameIndex * 1000) / fps);
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(frameIndex * frameDurationUs),
+        duration: Math.round(frameDurationUs)
+      });
+      encoder.encode(frame, { keyFrame: frameIndex % keyFrameInterval === 0 });
+      frame.close();
+      encodeAudioUntil((frameIndex + 1) / fps);
+      onProgress?.((frameIndex + 1) / totalFrames);
+
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await waitForDequeue(encoder, failure, signal);
+      }
+    }
+
+    await Promise.all([encoder.flush(), audioEncoder?.flush()]);
+    if (encoderError) throw encoderError;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+    if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+  }
+
+  const codecs = [codec.candidate.mimeCodec, audioCodec?.candidate.mimeCodec].filter(Boolean).join(',');
+  const mimeType = `video/${container};codecs=${codecs}`;
+  return { blob: new Blob([muxer.finalize()], { type: mimeType }), mimeType };
+}
@@ -0,0 +1,236 @@
+import type { SceneConfig } from '../components/VideoCanvas';
+import { drawCaptions, type CaptionCue, type CaptionSettings } from './captions';
+import { clamp } from './easing';
+import { drawGradeOverlays, drawGradedSource, type ColorGrade } from './grading';
+import { computeOverlayLayout, type OverlayRect, type Resolution } from './layout';
+import type { LocaleCode } from './locales';
+import { DEFAULT_FALLBACK, drawMediaFill, type ImageSource, type MediaSource } from './media';
+import { DEFAULT_MOTION, computeMotionRect } from './motion';
+import { drawOverlay } from './overlays';
+import { drawTextLayer } from './textLayers';
+import type { Theme } from './themes';
+import { findTimelineEntry, type Timeline } from './timeline';
+import { drawTransition, effectiveTransitionDuration } from './transitions';
+
+// Everything about the reel that a frame depends on. Kept free of React and the DOM so the browser
+// preview, in-browser renders and the command-line renderer all draw identical frames.
+export type FrameSettings = {
+  scenes: SceneConfig[];
+  timeline: Timeline;
+  resolution: Resolution;
+  theme: Theme;
+  // The project-wide grade; scenes with their own grade use that instead.
+  grade: ColorGrade;
+  captions?: CaptionSettings;
+  // Precomputed once per render; only drawn when `captions.burnIn` is set.
+  captionCues: CaptionCue[];
+  locale: LocaleCode;
+};
+
+// One loaded source per scene, in scene order, already positioned at the frame's clip time. A scene whose
+// media failed to load holds its fallback image, or null to draw its fallback colour. Overlay images are
+// keyed by URL; ones that failed to load are missing and are skipped.
+export type FrameAssets = {
+  sources: MediaSource[];
+  logo: ImageSource | null;
+  overlayImages: Map<string, ImageSource>;
+};
+
+export function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  { scenes, timeline, resolution, theme, grade, captions, captionCues, locale }: FrameSettings,
+  { sources, logo, overlayImages }: FrameAssets,
+  elapsedMs: number
+) {
+  const { duration } = timeline;
+  const { width, height } = resolution;
+  const totalDurationMs = duration * 1000;
+  const progress = clamp(elapsedMs / totalDurationMs, 0, 1);
+
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+
+  const elapsedSeconds = elapsedMs / 1000;
+  const { scene, index: sceneIndex, start: sceneStart } = findTimelineEntry(timeline, elapsedSeconds);
+  const sceneElapsed = elapsedSeconds - sceneStart;
+  const previous = scenes[sceneIndex - 1];
+  const next = scenes[sceneIndex + 1];
+
+  const drawLayer = (index: number, layerElapsed: number) => (layerCtx: CanvasRenderingContext2D) => {
+    const layerScene = scenes[index];
+    const layerGrade = layerScene.grade ?? grade;
+    const sceneProgress = clamp(layerElapsed / layerScene.duration, 0, 1);
+    drawSceneMedia(layerCtx, layerScene, sources[index], layerGrade, sceneProgress, width, height);
+    drawGradeOverlays(layerCtx, layerGrade, width, height, elapsedMs);
+  };
+
+  const incomingWindow = previous
+    ? effectiveTransitionDuration(scene.transition, previous.duration, scene.duration)
+    : 0;
+  const outgoingWindow = next
+    ? effectiveTransitionDuration(next.transition, scene.duration, next.duration)
+    : 0;
+
+  if (previous && scene.transition && incomingWindow > 0 && sceneElapsed < incomingWindow / 2) {
+    drawTransition(
+      ctx,
+      scene.transition.type,
+      (sceneElapsed + incomingWindow / 2) / incomingWindow,
+      drawLayer(sceneIndex - 1, sceneElapsed + previous.duration),
+      drawLayer(sceneIndex, sceneElapsed),
+      width,
+      height
+    );
+  } else if (next?.transition && outgoingWindow > 0 && sceneElapsed >= scene.duration - outgoingWindow / 2) {
+    drawTransition(
+      ctx,
+      next.transition.type,
+      (sceneElapsed - (scene.duration - outgoingWindow / 2)) / outgoingWindow,
+      drawLayer(sceneIndex, sceneElapsed),
+      drawLayer(sceneIndex + 1, sceneElapsed - scene.duration),
+      width,
+      height
+    );
+  } else {
+    drawLayer(sceneIndex, sceneElapsed)(ctx);
+  }
+
+  const gradient = ctx.createLinearGradient(0, height * theme.gradient.start, 0, height);
+  gradient.addColorStop(0, theme.gradient.stops[0]);
+  gradient.addColorStop(0.65, theme.gradient.stops[1]);
+  gradient.addColorStop(1, theme.gradient.stops[2]);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const { unit, safe } = computeOverlayLayout(resolution);
+  drawFrameDecoration(ctx, theme, width, height, unit);
+  if (logo && theme.logo) drawLogo(ctx, logo, theme.logo, safe, unit);
+
+  scene.layers.forEach((layer) =>
+    drawTextLayer(ctx, layer, theme, safe, unit, sceneElapsed, scene.duration, locale)
+  );
+  const sceneProgress = clamp(sceneElapsed / scene.duration, 0, 1);
+  const overlayFrame = {
+    theme,
+    safe,
+    unit,
+    media: sceneMediaRect(scene, sources[sceneIndex], sceneProgress, width, height),
+    images: overlayImages,
+    sceneElapsed,
+    sceneDuration: scene.duration
+  };
+  scene.overlays?.forEach((overlay) => drawOverlay(ctx, overlay, overlayFrame, width, height));
+  if (captions?.burnIn) {
+    drawCaptions(ctx, captionCues, elapsedSeconds, captions, theme, safe, unit, locale);
+  }
+
+  const barHeight = 8 * unit;
+  const barY = safe.y + safe.height - barHeight;
+  ctx.fillStyle = theme.colors.progressTrack;
+  ctx.fillRect(safe.x, barY, safe.width, barHeight);
+  ctx.fillStyle = theme.colors.progressFill;
+  ctx.fillRect(safe.x, barY, safe.width * progress, barHeight);
+
+  ctx.fillStyle = theme.colors.timecode;
+  ctx.font = `${20 * unit}px ${theme.fonts.body}`;
+  ctx.textAlign = 'right';
+  ctx.fillText(`${Math.round(progress * duration)} sec`, safe.x + safe.width, barY - 6 * unit);
+
+  ctx.restore();
+}
+
+function drawFrameDecoration(
+  context: CanvasRenderingContext2D,
+  theme: Theme,
+  width: number,
+  height: number,
+  unit: number
+) {
+  const { style } = theme.frame;
+  if (style === 'none') return;
+
+  const inset = theme.frame.inset * unit;
+  const lineWidth = theme.frame.lineWidth * unit;
+  const frameWidth = width - inset * 2;
+  const frameHeight = height - inset * 2;
+  context.strokeStyle = theme.colors.frameStroke;
+  context.lineWidth = lineWidth;
+
+  if (style === 'inset') {
+    context.fillStyle = theme.colors.frameFill;
+    context.fillRect(inset, inset, frameWidth, frameHeight);
+    context.strokeRect(inset, inset, frameWidth, frameHeight);
+    return;
+  }
+
+  const arm = Math.min(frameWidth, frameHeight) * 0.12;
+  const corners: Array<[number, number, number, number]> = [
+    [inset, inset, 1, 1],
+    [width - inset, inset, -1, 1],
+    [inset, height - inset, 1, -1],
+    [width - inset, height - inset, -1, -1]
+  ];
+  context.beginPath();
+  for (const [x, y, dx, dy] of corners) {
+    context.moveTo(x + arm * dx, y);
+    context.lineTo(x, y);
+    context.lineTo(x, y + arm * dy);
+  }
+  context.stroke();
+}
+
+function drawLogo(
+  context: CanvasRenderingContext2D,
+  logo: ImageSource,
+  placement: NonNullable<Theme['logo']>,
+  safe: OverlayRect,
+  unit: number
+) {
+  const logoWidth = placement.width * unit;
+  const logoHeight = (logo.height / logo.width) * logoWidth;
+  const x = placement.position.endsWith('left') ? safe.x : safe.x + safe.width - logoWidth;
+  const y = placement.position.startsWith('top') ? safe.y : safe.y + safe.height - logoHeight;
+
+  context.save();
+  context.globalAlpha = placement.opacity;
+  context.drawImage(logo, x, y, logoWidth, logoHeight);
+  context.restore();
+}
+
+// Where the scene's picture sits in the frame at this point of its camera motion. Fills, and media that
+// failed to load, cover the whole frame.
+function sceneMediaRect(
+  { motion = DEFAULT_MOTION }: SceneConfig,
+  source: MediaSource,
+  sceneProgress: number,
+  width: number,
+  height: number
+): OverlayRect {
+  if (!source) return { x: 0, y: 0, width, height };
+  // Duck-typed rather than `instanceof HTMLVideoElement`, which does not exist outside the browser.
+  const isVideo = 'videoWidth' in source;
+  const sourceWidth = isVideo ? source.videoWidth : source.width;
+  const sourceHeight = isVideo ? source.videoHeight : source.height;
+  return computeMotionRect(sourceWidth, sourceHeight, width, height, motion, sceneProgress);
+}
+
+function drawSceneMedia(
+  context: CanvasRenderingContext2D,
+  scene: SceneConfig,
+  source: MediaSource,
+  grade: ColorGrade,
+  sceneProgress: number,
+  width: number,
+  height: number
+) {
+  const { media, fallback = DEFAULT_FALLBACK } = scene;
+  if (media.type === 'color' || media.type === 'gradient') {
+    drawMediaFill(context, media, width, height);
+    return;
+  }
+
+  context.fillStyle = fallback.color;
+  context.fillRect(0, 0, width, height);
+  if (!source) return;
+  drawGradedSource(context, source, grade, sceneMediaRect(scene, source, sceneProgress, width, height));
+}
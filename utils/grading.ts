@@ -0,0 +1,251 @@
+import type { MediaSource } from './media';
+
+// Brightness, contrast and saturation are multipliers where 1 leaves the picture unchanged. Temperature
+// runs from -1 (cool) to 1 (warm); vignette and grain are strengths from 0 to 1.
+export type ColorGrade = {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  temperature: number;
+  vignette: number;
+  grain: number;
+};
+
+export type GradePreset = 'natural' | 'golden-hour' | 'cool-night' | 'film' | 'black-and-white' | 'ungraded';
+
+export const GRADE_PRESET_LABELS: Record<GradePreset, string> = {
+  natural: 'Natural',
+  'golden-hour': 'Warm golden hour',
+  'cool-night': 'Cool night',
+  film: 'Film',
+  'black-and-white': 'Black & white',
+  ungraded: 'Ungraded'
+};
+
+export const GRADE_PRESETS: Record<GradePreset, ColorGrade> = {
+  natural: {
+    brightness: 1.05,
+    contrast: 1,
+    saturation: 1.15,
+    temperature: 0,
+    vignette: 0,
+    grain: 0
+  },
+  'golden-hour': {
+    brightness: 1.08,
+    contrast: 1.05,
+    saturation: 1.2,
+    temperature: 0.55,
+    vignette: 0.25,
+    grain: 0
+  },
+  'cool-night': {
+    brightness: 0.92,
+    contrast: 1.1,
+    saturation: 0.9,
+    temperature: -0.6,
+    vignette: 0.35,
+    grain: 0.05
+  },
+  film: {
+    brightness: 1,
+    contrast: 0.9,
+    saturation: 0.85,
+    temperature: 0.15,
+    vignette: 0.3,
+    grain: 0.35
+  },
+  'black-and-white': {
+    brightness: 1.05,
+    contrast: 1.2,
+    saturation: 0,
+    temperature: 0,
+    vignette: 0.2,
+    grain: 0.15
+  },
+  ungraded: {
+    brightness: 1,
+    contrast: 1,
+    saturation: 1,
+    temperature: 0,
+    vignette: 0,
+    grain: 0
+  }
+};
+
+export const GRADE_ADJUSTMENTS: Record<keyof ColorGrade, { label: string; min: number; max: number }> = {
+  brightness: { label: 'Brightness', min: 0.5, max: 1.5 },
+  contrast: { label: 'Contrast', min: 0.5, max: 1.5 },
+  saturation: { label: 'Saturation', min: 0, max: 2 },
+  temperature: { label: 'Temperature', min: -1, max: 1 },
+  vignette: { label: 'Vignette', min: 0, max: 1 },
+  grain: { label: 'Grain', min: 0, max: 1 }
+};
+
+// The natural preset reproduces the fixed filter every image was drawn with before grading existed.
+export const DEFAULT_GRADE = GRADE_PRESETS.natural;
+
+const TEMPERATURE_STRENGTH = 0.45;
+const WARM_TINT = 'rgb(255, 156, 54)';
+const COOL_TINT = 'rgb(64, 136, 255)';
+const VIGNETTE_STRENGTH = 0.85;
+const GRAIN_STRENGTH = 0.4;
+const GRAIN_TILE_SIZE = 128;
+const GRAIN_TILE_COUNT = 6;
+const GRAIN_FRAME_MS = 1000 / 24;
+// Graded copies are made at most this large; bigger sources are scaled down first.
+const MAX_GRADED_PIXELS = 3840 * 2160;
+
+type GradedSource = NonNullable<MediaSource>;
+
+const gradedCopies = new WeakMap<object, { filter: string; canvas: HTMLCanvasElement }>();
+const grainTiles: HTMLCanvasElement[] = [];
+
+export function gradeFilter({ brightness, contrast, saturation }: ColorGrade) {
+  const parts = [
+    brightness !== 1 ? `brightness(${brightness})` : '',
+    contrast !== 1 ? `contrast(${contrast})` : '',
+    saturation !== 1 ? `saturate(${saturation})` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : 'none';
+}
+
+// Scratch canvases are made alongside the target, so the same code runs on DOM canvases and on node-canvas,
+// whose Canvas class is constructed directly.
+function createScratch(target: HTMLCanvasElement, width: number, height: number) {
+  const canvas = target.ownerDocument
+    ? target.ownerDocument.createElement('canvas')
+    : new (target.constructor as new (width: number, height: number) => HTMLCanvasElement)(width, height);
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+// Follows the CSS filter definitions of brightness(), contrast() and saturate(), applied in that order.
+function gradePixels(data: Uint8ClampedArray, { brightness, contrast, saturation: s }: ColorGrade) {
+  const offset = 255 * (0.5 - 0.5 * contrast);
+  const tone = (value: number) =>
+    Math.min(255, Math.max(0, contrast * Math.min(255, value * brightness) + offset));
+  for (let index = 0; index < data.length; index += 4) {
+    const r = tone(data[index]);
+    const g = tone(data[index + 1]);
+    const b = tone(data[index + 2]);
+    data[index] = (0.213 + 0.787 * s) * r + (0.715 - 0.715 * s) * g + (0.072 - 0.072 * s) * b;
+    data[index + 1] = (0.213 - 0.213 * s) * r + (0.715 + 0.285 * s) * g + (0.072 - 0.072 * s) * b;
+    data[index + 2] = (0.213 - 0.213 * s) * r + (0.715 - 0.715 * s) * g + (0.072 + 0.928 * s) * b;
+  }
+}
+
+// Still images are graded once per filter; video frames change, so they are regraded on every draw.
+function gradedCopy(target: HTMLCanvasElement, source: GradedSource, grade: ColorGrade, filter: string) {
+  const isVideo = 'videoWidth' in source;
+  const cached = gradedCopies.get(source);
+  if (cached && !isVideo && cached.filter === filter) return cached.canvas;
+
+  const sourceWidth = isVideo ? source.videoWidth : source.width;
+  const sourceHeight = isVideo ? source.videoHeight : source.height;
+  const scale = Math.min(1, Math.sqrt(MAX_GRADED_PIXELS / Math.max(1, sourceWidth * sourceHeight)));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+  const canvas =
+    cached && cached.canvas.width === width && cached.canvas.height === height
+      ? cached.canvas
+      : createScratch(target, width, height);
+  const context = canvas.getContext('2d');
+  if (!context) return source;
+  context.clearRect(0, 0, width, height);
+  context.drawImage(source, 0, 0, width, height);
+  const pixels = context.getImageData(0, 0, width, height);
+  gradePixels(pixels.data, grade);
+  context.putImageData(pixels, 0, 0);
+  gradedCopies.set(source, { filter, canvas });
+  return canvas;
+}
+
+// Uses the canvas `filter` where the browser supports it and grades the pixels itself elsewhere, such as
+// older Safari and node-canvas.
+export function drawGradedSource(
+  context: CanvasRenderingContext2D,
+  source: GradedSource,
+  grade: ColorGrade,
+  rect: { x: number; y: number; width: number; height: number }
+) {
+  const filter = gradeFilter(grade);
+  if (filter !== 'none' && typeof context.filter === 'string') {
+    context.filter = filter;
+    context.drawImage(source, rect.x, rect.y, rect.width, rect.height);
+    context.filter = 'none';
+    return;
+  }
+  let graded: CanvasImageSource = source;
+  try {
+    if (filter !== 'none') graded = gradedCopy(context.canvas, source, grade, filter);
+  } catch {
+    // Cross-origin sources cannot be read back; they are drawn ungraded rather than not at all.
+  }
+  context.drawImage(graded, rect.x, rect.y, rect.width, rect.height);
+}
+
+// Small tiles of seeded noise, so every render of a reel has identical grain.
+function grainTile(target: HTMLCanvasElement, index: number) {
+  const existing = grainTiles[index];
+  if (existing) return existing;
+  const tile = createScratch(target, GRAIN_TILE_SIZE, GRAIN_TILE_SIZE);
+  const context = tile.getContext('2d');
+  if (!context) return null;
+  const pixels = context.createImageData(GRAIN_TILE_SIZE, GRAIN_TILE_SIZE);
+  let seed = (index + 1) * 0x9e3779b9;
+  for (let offset = 0; offset < pixels.data.length; offset += 4) {
+    seed = (Math.imul(seed ^ (seed >>> 15), 0x2c1b3c6d) + 0x6d2b79f5) | 0;
+    const value = (seed >>> 24) & 0xff;
+    pixels.data.set([value, value, value, 255], offset);
+  }
+  context.putImageData(pixels, 0, 0);
+  grainTiles[index] = tile;
+  return tile;
+}
+
+// Temperature, vignette and grain are composited over the whole scene layer, colour fills included.
+export function drawGradeOverlays(
+  context: CanvasRenderingContext2D,
+  { temperature, vignette, grain }: ColorGrade,
+  width: number,
+  height: number,
+  elapsedMs: number
+) {
+  const baseAlpha = context.globalAlpha;
+  context.save();
+  if (temperature !== 0) {
+    context.globalCompositeOperation = 'soft-light';
+    context.globalAlpha = baseAlpha * Math.abs(temperature) * TEMPERATURE_STRENGTH;
+    context.fillStyle = temperature > 0 ? WARM_TINT : COOL_TINT;
+    context.fillRect(0, 0, width, height);
+  }
+  if (vignette > 0) {
+    const radius = Math.hypot(width, height) / 2;
+    const gradient = context.createRadialGradient(
+      width / 2,
+      height / 2,
+      radius * 0.45,
+      width / 2,
+      height / 2,
+      radius
+    );
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, `rgba(0, 0, 0, ${vignette * VIGNETTE_STRENGTH})`);
+    context.globalCompositeOperation = 'source-over';
+    context.globalAlpha = baseAlpha;
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, width, height);
+  }
+  const tile =
+    grain > 0 ? grainTile(context.canvas, Math.floor(elapsedMs / GRAIN_FRAME_MS) % GRAIN_TILE_COUNT) : null;
+  const pattern = tile ? context.createPattern(tile, 'repeat') : null;
+  if (pattern) {
+    context.globalCompositeOperation = 'overlay';
+    context.globalAlpha = baseAlpha * grain * GRAIN_STRENGTH;
+    context.fillStyle = pattern;
+    context.fillRect(0, 0, width, height);
+  }
+  context.restore();
+}
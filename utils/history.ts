@@ -0,0 +1,76 @@
+import type { SceneConfig } from '../components/VideoCanvas';
+import { createId } from './ids';
+import type { ProjectDocument } from './project';
+
+// Every undoable step is a whole project snapshot. Edits never mutate a document, so unchanged parts are
+// shared between snapshots and a long history stays cheap.
+export type HistoryEntry = {
+  id: string;
+  label: string;
+  project: ProjectDocument;
+  group: string | null;
+  at: number;
+};
+
+// Entries after `index` are the redo stack; a new edit discards them.
+export type ProjectHistory = {
+  entries: HistoryEntry[];
+  index: number;
+};
+
+const HISTORY_LIMIT = 100;
+// Edits in the same group fold into one entry while they keep arriving within this window, so a slider drag
+// or a burst of typing undoes in one step.
+const GROUP_WINDOW_MS = 1000;
+
+export function createHistory(project: ProjectDocument, label: string): ProjectHistory {
+  return { entries: [{ id: createId('history'), label, project, group: null, at: Date.now() }], index: 0 };
+}
+
+export function currentProject({ entries, index }: ProjectHistory) {
+  return entries[index].project;
+}
+
+export function canUndo(history: ProjectHistory) {
+  return history.index > 0;
+}
+
+export function canRedo(history: ProjectHistory) {
+  return history.index < history.entries.length - 1;
+}
+
+export function recordEdit(
+  history: ProjectHistory,
+  project: ProjectDocument,
+  label: string,
+  group: string | null = null,
+  at = Date.now()
+): ProjectHistory {
+  const current = history.entries[history.index];
+  if (project === current.project) return history;
+  const past = history.entries.slice(0, history.index);
+  // Only the newest entry can absorb an edit; after an undo the edit starts a new branch instead.
+  const latest = past.length > 0 && !canRedo(history);
+  if (latest && group !== null && current.group === group && at - current.at < GROUP_WINDOW_MS) {
+    return { entries: [...past, { ...current, project, at }], index: history.index };
+  }
+  const entries = [...past, current, { id: createId('history'), label, project, group, at }].slice(
+    -HISTORY_LIMIT
+  );
+  return { entries, index: entries.length - 1 };
+}
+
+export function moveHistory(history: ProjectHistory, index: number): ProjectHistory {
+  if (index < 0 || index >= history.entries.length || index === history.index) return history;
+  return { ...history, index };
+}
+
+// Names a scene-list change by its shape, so reorders and removals read clearly in the history list.
+export function describeScenesChange(previous: SceneConfig[], next: SceneConfig[]) {
+  if (next.length > previous.length) return 'Add scene';
+  if (next.length < previous.length) return 'Remove scene';
+  const moved = next.some((scene, index) => scene.id !== previous[index].id);
+  if (!moved) return 'Edit scene';
+  const previousIds = new Set(previous.map((scene) => scene.id));
+  return next.every((scene) => previousIds.has(scene.id)) ? 'Reorder scenes' : 'Replace scenes';
+}
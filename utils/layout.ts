@@ -0,0 +1,75 @@
+export type Resolution = {
+  width: number;
+  height: number;
+};
+
+export type ResolutionPreset = Resolution & {
+  id: string;
+  label: string;
+};
+
+// Insets are fractions of the output size that overlay copy must stay inside.
+export type SafeArea = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+export type OverlayRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type OverlayLayout = {
+  // Multiplier for sizes authored against a 720px-tall landscape frame.
+  unit: number;
+  safe: OverlayRect;
+};
+
+export const RESOLUTION_PRESETS: ResolutionPreset[] = [
+  { id: 'landscape-720p', label: '16:9 · 720p', width: 1280, height: 720 },
+  { id: 'landscape-1080p', label: '16:9 · 1080p', width: 1920, height: 1080 },
+  { id: 'landscape-4k', label: '16:9 · 4K UHD', width: 3840, height: 2160 },
+  { id: 'vertical-1080p', label: '9:16 · Reels / Shorts', width: 1080, height: 1920 },
+  { id: 'square-1080', label: '1:1 · Square', width: 1080, height: 1080 },
+  { id: 'portrait-1080', label: '4:5 · Portrait feed', width: 1080, height: 1350 }
+];
+
+const REFERENCE_SHORT_SIDE = 720;
+
+const LANDSCAPE_SAFE_AREA: SafeArea = { top: 0.06, right: 0.086, bottom: 0.028, left: 0.086 };
+
+// Vertical feeds overlay the caption, author and action buttons on the lower and right edges.
+const VERTICAL_SAFE_AREA: SafeArea = { top: 0.12, right: 0.12, bottom: 0.2, left: 0.07 };
+
+const SQUARE_SAFE_AREA: SafeArea = { top: 0.07, right: 0.08, bottom: 0.05, left: 0.08 };
+
+export function findResolutionPreset({ width, height }: Resolution) {
+  return RESOLUTION_PRESETS.find((preset) => preset.width === width && preset.height === height);
+}
+
+export function safeAreaFor({ width, height }: Resolution): SafeArea {
+  const ratio = width / height;
+  if (ratio >= 1.3) return LANDSCAPE_SAFE_AREA;
+  if (ratio <= 0.7) return VERTICAL_SAFE_AREA;
+  return SQUARE_SAFE_AREA;
+}
+
+export function computeOverlayLayout(resolution: Resolution): OverlayLayout {
+  const { width, height } = resolution;
+  const insets = safeAreaFor(resolution);
+  const x = Math.round(width * insets.left);
+  const y = Math.round(height * insets.top);
+  return {
+    unit: Math.min(width, height) / REFERENCE_SHORT_SIDE,
+    safe: {
+      x,
+      y,
+      width: Math.round(width * (1 - insets.right)) - x,
+      height: Math.round(height * (1 - insets.bottom)) - y
+    }
+  };
+}
@@ -0,0 +1,39 @@
+export type LocaleCode = 'en' | 'ar' | 'fr' | 'de' | 'es' | 'ru' | 'hi' | 'zh' | 'ja' | 'he';
+
+// `base` is the language layer text is written in; `additional` locales hold translations of it.
+export type LocaleSettings = {
+  base: LocaleCode;
+  additional: LocaleCode[];
+};
+
+export const LOCALE_LABELS: Record<LocaleCode, string> = {
+  en: 'English',
+  ar: 'العربية (Arabic)',
+  fr: 'Français (French)',
+  de: 'Deutsch (German)',
+  es: 'Español (Spanish)',
+  ru: 'Русский (Russian)',
+  hi: 'हिन्दी (Hindi)',
+  zh: '中文 (Chinese)',
+  ja: '日本語 (Japanese)',
+  he: 'עברית (Hebrew)'
+};
+
+const RTL_LOCALES: LocaleCode[] = ['ar', 'he'];
+
+export const DEFAULT_LOCALES: LocaleSettings = {
+  base: 'en',
+  additional: []
+};
+
+export function isLocaleCode(value: unknown): value is LocaleCode {
+  return typeof value === 'string' && Object.hasOwn(LOCALE_LABELS, value);
+}
+
+export function isRtlLocale(locale: LocaleCode) {
+  return RTL_LOCALES.includes(locale);
+}
+
+export function projectLocales(settings: LocaleSettings): LocaleCode[] {
+  return [settings.base, ...settings.additional];
+}
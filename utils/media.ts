@@ -0,0 +1,192 @@
+import { resolveMediaUrl } from './mediaLibrary';
+import type { Timeline } from './timeline';
+
+export type SceneMediaType = 'image' | 'video' | 'color' | 'gradient';
+
+export type ImageMedia = {
+  type: 'image';
+  src: string;
+};
+
+// `in`/`out` are clip times in seconds; a null `out` plays to the end of the file.
+export type VideoMedia = {
+  type: 'video';
+  src: string;
+  in: number;
+  out: number | null;
+  muted: boolean;
+  volume: number;
+};
+
+export type ColorMedia = {
+  type: 'color';
+  color: string;
+};
+
+export type GradientMedia = {
+  type: 'gradient';
+  from: string;
+  to: string;
+  angle: number;
+};
+
+export type SceneMedia = ImageMedia | VideoMedia | ColorMedia | GradientMedia;
+
+// Shown when a scene's image or clip cannot be loaded: the fallback image if it loads, otherwise a fill
+// in the fallback colour. An empty `src` skips straight to the colour.
+export type MediaFallback = {
+  src: string;
+  color: string;
+};
+
+export type ImageSource = HTMLImageElement | ImageBitmap;
+
+export type MediaSource = ImageSource | HTMLVideoElement | null;
+
+export const MEDIA_TYPE_LABELS: Record<SceneMediaType, string> = {
+  image: 'Image',
+  video: 'Video clip',
+  color: 'Solid colour',
+  gradient: 'Gradient'
+};
+
+export const DEFAULT_FALLBACK: MediaFallback = { src: '', color: '#020617' };
+
+// Seeking a playing element is expensive, so live playback tolerates this much drift.
+const PLAYBACK_DRIFT_SECONDS = 0.25;
+
+export function isSceneMediaType(value: unknown): value is SceneMediaType {
+  return typeof value === 'string' && Object.hasOwn(MEDIA_TYPE_LABELS, value);
+}
+
+export function createMedia(type: SceneMediaType, previous?: SceneMedia): SceneMedia {
+  const src = previous && 'src' in previous ? previous.src : '';
+  switch (type) {
+    case 'image':
+      return { type, src };
+    case 'video':
+      return { type, src, in: 0, out: null, muted: false, volume: 1 };
+    case 'color':
+      return { type, color: '#0f172a' };
+    case 'gradient':
+      return { type, from: '#0ea5e9', to: '#312e81', angle: 135 };
+  }
+}
+
+export function mediaKey(media: SceneMedia) {
+  return media.type === 'image' || media.type === 'video' ? `${media.type}:${media.src}` : media.type;
+}
+
+export async function loadImage(src: string) {
+  const url = await resolveMediaUrl(src);
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.decoding = 'async';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image ${src}`));
+    img.src = url;
+  });
+}
+
+// Decodes the image up front so the first frame that draws it does not stall on decoding mid-render.
+export async function decodeImage(src: string): Promise<ImageSource> {
+  const img = await loadImage(src);
+  if (typeof createImageBitmap === 'function') return createImageBitmap(img);
+  await img.decode().catch(() => undefined);
+  return img;
+}
+
+// Clip audio is mixed into the soundtrack separately, so the element itself always stays muted.
+export async function loadVideo(src: string) {
+  const url = await resolveMediaUrl(src);
+  return new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error(`Failed to load video ${src}`));
+    video.src = url;
+  });
+}
+
+export function loadMediaSource(media: SceneMedia): Promise<MediaSource> {
+  if (media.type === 'image') return loadImage(media.src);
+  if (media.type === 'video') return loadVideo(media.src);
+  return Promise.resolve(null);
+}
+
+function clipTime(media: VideoMedia, video: HTMLVideoElement, sceneElapsed: number) {
+  const end = Math.min(media.out ?? video.duration, video.duration);
+  return Math.min(media.in + Math.max(0, sceneElapsed), Math.max(media.in, end - 0.001));
+}
+
+function seekVideo(video: HTMLVideoElement, time: number) {
+  if (Math.abs(video.currentTime - time) < 0.001) return Promise.resolve();
+  return new Promise<void>((resolve) => {
+    video.addEventListener('seeked', () => resolve(), { once: true });
+    video.currentTime = time;
+  });
+}
+
+// Points every video scene at the clip time matching `time` on the reel clock. Exact syncing pauses the
+// elements and waits for each seek, which frame-accurate renders and scrubbing need; otherwise visible
+// clips play natively and are only re-seeked once they drift.
+export async function syncVideoSources(
+  timeline: Timeline,
+  sources: MediaSource[],
+  time: number,
+  exact: boolean
+) {
+  const seeks: Promise<void>[] = [];
+  timeline.entries.forEach(({ scene, start, end }, index) => {
+    const video = sources[index];
+    if (scene.media.type !== 'video' || !(video instanceof HTMLVideoElement)) return;
+    const target = clipTime(scene.media, video, time - start);
+    const playing = !exact && time >= start && time < end;
+
+    if (!playing) {
+      if (!video.paused) video.pause();
+      if (exact) seeks.push(seekVideo(video, target));
+      else if (Math.abs(video.currentTime - target) > PLAYBACK_DRIFT_SECONDS) video.currentTime = target;
+      return;
+    }
+    if (Math.abs(video.currentTime - target) > PLAYBACK_DRIFT_SECONDS) video.currentTime = target;
+    if (video.paused) video.play().catch(() => undefined);
+  });
+  await Promise.all(seeks);
+}
+
+export function pauseVideoSources(sources: MediaSource[]) {
+  sources.forEach((source) => {
+    if (source instanceof HTMLVideoElement && !source.paused) source.pause();
+  });
+}
+
+export function drawMediaFill(
+  context: CanvasRenderingContext2D,
+  media: ColorMedia | GradientMedia,
+  width: number,
+  height: number
+) {
+  if (media.type === 'color') {
+    context.fillStyle = media.color;
+  } else {
+    const radians = (media.angle * Math.PI) / 180;
+    const half = (Math.abs(width * Math.sin(radians)) + Math.abs(height * Math.cos(radians))) / 2;
+    const dx = Math.sin(radians) * half;
+    const dy = -Math.cos(radians) * half;
+    const gradient = context.createLinearGradient(
+      width / 2 - dx,
+      height / 2 - dy,
+      width / 2 + dx,
+      height / 2 + dy
+    );
+    gradient.addColorStop(0, media.from);
+    gradient.addColorStop(1, media.to);
+    context.fillStyle = gradient;
+  }
+  context.fillRect(0, 0, width, height);
+}
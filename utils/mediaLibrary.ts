@@ -0,0 +1,228 @@
+import { ASSET_STORE, INDEXED_DB_SUPPORT, withStore } from './database';
+import { createId } from './ids';
+
+export type AssetKind = 'image' | 'video' | 'audio' | 'font';
+
+export type MediaAsset = {
+  id: string;
+  name: string;
+  kind: AssetKind;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  thumbnail: Blob | null;
+  addedAt: number;
+};
+
+type StoredAsset = MediaAsset & { blob: Blob };
+
+type AssetMetadata = Pick<MediaAsset, 'width' | 'height' | 'duration' | 'thumbnail'>;
+
+// Projects reference library assets as `asset:<id>` so the link survives reloads; object URLs do not.
+const ASSET_URL_PREFIX = 'asset:';
+const THUMBNAIL_SIZE = 160;
+const MAX_ASSET_BYTES = 512 * 1024 * 1024;
+// Browsers often report font files with an empty or vendor-specific MIME type, so the extension is trusted.
+const FONT_FILE_PATTERN = /\.(ttf|otf|woff2?)$/i;
+
+const objectUrls = new Map<string, string>();
+
+export function assetUrl(id: string) {
+  return `${ASSET_URL_PREFIX}${id}`;
+}
+
+export function assetIdFromUrl(src: string) {
+  return src.startsWith(ASSET_URL_PREFIX) ? src.slice(ASSET_URL_PREFIX.length) : null;
+}
+
+export function assetKindFromMimeType(mimeType: string): AssetKind | null {
+  const [family] = mimeType.split('/');
+  return family === 'image' || family === 'video' || family === 'audio' || family === 'font' ? family : null;
+}
+
+function assetKindFromFile(file: File) {
+  return FONT_FILE_PATTERN.test(file.name) ? 'font' : assetKindFromMimeType(file.type);
+}
+
+function renderThumbnail(source: HTMLImageElement | HTMLVideoElement, width: number, height: number) {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+}
+
+function probeImage(url: string) {
+  return new Promise<AssetMetadata>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      renderThumbnail(img, img.naturalWidth, img.naturalHeight).then((thumbnail) =>
+        resolve({ width: img.naturalWidth, height: img.naturalHeight, duration: null, thumbnail })
+      );
+    };
+    img.onerror = () => reject(new Error('not a readable image'));
+    img.src = url;
+  });
+}
+
+// The thumbnail comes from a second in (or the midpoint of shorter clips), or from the first frame when the
+// file reports no usable length. The element lets go of the file once it has been read, whatever happens.
+function probeVideo(url: string) {
+  return new Promise<AssetMetadata>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'metadata';
+    const release = () => {
+      video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+    };
+    const fail = (error: unknown) => {
+      release();
+      reject(error instanceof Error ? error : new Error('not a playable video'));
+    };
+    video.onloadedmetadata = () => {
+      const duration = Number.isFinite(video.duration) && video.duration > 0 ? video.duration : null;
+      video.onseeked = () => {
+        const { videoWidth: width, videoHeight: height } = video;
+        Promise.resolve()
+          .then(() => renderThumbnail(video, width, height))
+          .then((thumbnail) => {
+            release();
+            resolve({ width, height, duration, thumbnail });
+          }, fail);
+      };
+      try {
+        video.currentTime = duration === null ? 0 : Math.min(1, duration / 2);
+      } catch (caught) {
+        fail(caught);
+      }
+    };
+    video.onerror = () => fail(new Error('not a playable video'));
+    video.src = url;
+  });
+}
+
+function probeAudio(url: string) {
+  return new Promise<AssetMetadata>((resolve, reject) => {
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () =>
+      resolve({ width: null, height: null, duration: audio.duration, thumbnail: null });
+    audio.onerror = () => reject(new Error('not a playable audio file'));
+    audio.src = url;
+  });
+}
+
+function probeFont(url: string) {
+  return new FontFace(createId('probe'), `url("${url}")`).load().then(
+    (): AssetMetadata => ({ width: null, height: null, duration: null, thumbnail: null }),
+    () => {
+      throw new Error('not a readable font file');
+    }
+  );
+}
+
+const PROBES: Record<AssetKind, (url: string) => Promise<AssetMetadata>> = {
+  image: probeImage,
+  video: probeVideo,
+  audio: probeAudio,
+  font: probeFont
+};
+
+// Reads the file's dimensions/duration up front so broken files are rejected at import, not at render.
+export async function importAsset(file: File): Promise<MediaAsset> {
+  if (!INDEXED_DB_SUPPORT) throw new Error('This browser cannot store a media library.');
+  const kind = assetKindFromFile(file);
+  if (!kind) throw new Error(`"${file.name}" is not an image, video, audio or font file.`);
+  if (file.size > MAX_ASSET_BYTES) {
+    throw new Error(`"${file.name}" is larger than ${MAX_ASSET_BYTES / 1024 / 1024} MB.`);
+  }
+
+  const url = URL.createObjectURL(file);
+  let metadata: AssetMetadata;
+  try {
+    metadata = await PROBES[kind](url);
+  } catch (caught) {
+    URL.revokeObjectURL(url);
+    const reason = caught instanceof Error ? caught.message : 'unreadable';
+    throw new Error(`"${file.name}" could not be imported: ${reason}.`);
+  }
+
+  const asset: MediaAsset = {
+    id: createId('asset'),
+    name: file.name,
+    kind,
+    mimeType: file.type,
+    size: file.size,
+    addedAt: Date.now(),
+    ...metadata
+  };
+  await withStore(ASSET_STORE, 'readwrite', (store) =>
+    store.put({ ...asset, blob: file } satisfies StoredAsset)
+  );
+  objectUrls.set(asset.id, url);
+  return asset;
+}
+
+export async function listAssets(): Promise<MediaAsset[]> {
+  if (!INDEXED_DB_SUPPORT) return [];
+  const records = await withStore<StoredAsset[]>(ASSET_STORE, 'readonly', (store) => store.getAll());
+  return records
+    .map(({ blob: _blob, ...asset }) => asset)
+    .sort((left, right) => left.addedAt - right.addedAt);
+}
+
+export async function getAsset(id: string): Promise<MediaAsset | null> {
+  if (!INDEXED_DB_SUPPORT) return null;
+  const record = await withStore<StoredAsset | undefined>(ASSET_STORE, 'readonly', (store) => store.get(id));
+  if (!record) return null;
+  const { blob: _blob, ...asset } = record;
+  return asset;
+}
+
+export async function deleteAsset(id: string) {
+  if (!INDEXED_DB_SUPPORT) return;
+  await withStore(ASSET_STORE, 'readwrite', (store) => store.delete(id));
+  const url = objectUrls.get(id);
+  if (url) URL.revokeObjectURL(url);
+  objectUrls.delete(id);
+}
+
+// Turns an `asset:` reference into a loadable object URL; any other src is returned untouched.
+export async function resolveMediaUrl(src: string) {
+  const id = assetIdFromUrl(src);
+  if (!id) return src;
+  const cached = objectUrls.get(id);
+  if (cached) return cached;
+
+  const record = INDEXED_DB_SUPPORT
+    ? await withStore<StoredAsset | undefined>(ASSET_STORE, 'readonly', (store) => store.get(id))
+    : undefined;
+  if (!record) throw new Error(`Media library asset ${id} is missing. Re-import the file or choose another.`);
+  const url = URL.createObjectURL(record.blob);
+  objectUrls.set(id, url);
+  return url;
+}
+
+const durations = new Map<string, Promise<number | null>>();
+
+// Library assets recorded their length at import; any other URL is probed for its metadata once.
+export function audioDuration(src: string) {
+  let duration = durations.get(src);
+  if (!duration) {
+    const id = assetIdFromUrl(src);
+    const lookup = id
+      ? getAsset(id).then((asset) => asset?.duration)
+      : probeAudio(src).then((meta) => meta.duration);
+    duration = lookup.then(
+      (seconds) => (seconds && Number.isFinite(seconds) && seconds > 0 ? seconds : null),
+      () => null
+    );
+    durations.set(src, duration);
+  }
+  return duration;
+}
@@ -0,0 +1,93 @@
+import { EASINGS, clamp, lerp, type EasingName } from './easing';
+
+// A keyframe frames the shot on a focal point given in 0–1 image coordinates. Zoom 1 is the
+// smallest scale at which the image still covers the whole frame.
+export type MotionKeyframe = {
+  x: number;
+  y: number;
+  zoom: number;
+};
+
+export type SceneMotion = {
+  easing: EasingName;
+  start: MotionKeyframe;
+  end: MotionKeyframe;
+};
+
+export type MotionPreset =
+  'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'pan-up' | 'pan-down' | 'static';
+
+export const MOTION_PRESET_LABELS: Record<MotionPreset, string> = {
+  'zoom-in': 'Zoom in',
+  'zoom-out': 'Zoom out',
+  'pan-left': 'Pan left',
+  'pan-right': 'Pan right',
+  'pan-up': 'Pan up',
+  'pan-down': 'Pan down',
+  static: 'Static'
+};
+
+export const MAX_MOTION_ZOOM = 3;
+
+export const DEFAULT_MOTION: SceneMotion = {
+  easing: 'cubic',
+  start: { x: 0.5, y: 0.5, zoom: 1 },
+  end: { x: 0.5, y: 0.5, zoom: 1.06 }
+};
+
+export function motionFromPreset(
+  preset: MotionPreset,
+  focus: { x: number; y: number },
+  intensity: number,
+  easing: EasingName
+): SceneMotion {
+  const zoom = 1 + intensity;
+  const pan = intensity;
+  const at = (x: number, y: number, keyframeZoom: number): MotionKeyframe => ({
+    x: clamp(x, 0, 1),
+    y: clamp(y, 0, 1),
+    zoom: keyframeZoom
+  });
+
+  switch (preset) {
+    case 'zoom-in':
+      return { easing, start: at(focus.x, focus.y, 1), end: at(focus.x, focus.y, zoom) };
+    case 'zoom-out':
+      return { easing, start: at(focus.x, focus.y, zoom), end: at(focus.x, focus.y, 1) };
+    case 'pan-left':
+      return { easing, start: at(focus.x + pan, focus.y, zoom), end: at(focus.x - pan, focus.y, zoom) };
+    case 'pan-right':
+      return { easing, start: at(focus.x - pan, focus.y, zoom), end: at(focus.x + pan, focus.y, zoom) };
+    case 'pan-up':
+      return { easing, start: at(focus.x, focus.y + pan, zoom), end: at(focus.x, focus.y - pan, zoom) };
+    case 'pan-down':
+      return { easing, start: at(focus.x, focus.y - pan, zoom), end: at(focus.x, focus.y + pan, zoom) };
+    case 'static':
+      return { easing, start: at(focus.x, focus.y, zoom), end: at(focus.x, focus.y, zoom) };
+  }
+}
+
+export function computeMotionRect(
+  imageWidth: number,
+  imageHeight: number,
+  width: number,
+  height: number,
+  motion: SceneMotion,
+  sceneProgress: number
+) {
+  const eased = EASINGS[motion.easing](clamp(sceneProgress, 0, 1));
+  const zoom = Math.max(1, lerp(motion.start.zoom, motion.end.zoom, eased));
+  const focusX = lerp(motion.start.x, motion.end.x, eased);
+  const focusY = lerp(motion.start.y, motion.end.y, eased);
+
+  const scale = Math.max(width / imageWidth, height / imageHeight) * zoom;
+  const drawWidth = imageWidth * scale;
+  const drawHeight = imageHeight * scale;
+
+  return {
+    x: clamp(width / 2 - focusX * drawWidth, width - drawWidth, 0),
+    y: clamp(height / 2 - focusY * drawHeight, height - drawHeight, 0),
+    width: drawWidth,
+    height: drawHeight
+  };
+}
@@ -0,0 +1,377 @@
+import { clamp } from './easing';
+import { createId } from './ids';
+import type { OverlayRect } from './layout';
+import type { ImageSource } from './media';
+import { encodeQrCode } from './qrCode';
+import { wrapLines } from './textLayers';
+import type { Theme } from './themes';
+
+export type OverlayType = 'logo' | 'callout' | 'badge' | 'lower-third' | 'end-card';
+
+// `start`/`end` are seconds into the scene, with a null end holding the overlay until the scene ends.
+type OverlayTiming = {
+  id: string;
+  start: number;
+  end: number | null;
+};
+
+// Position is the centre of the logo as a fraction of the safe area; `width` is in pixels at 720p.
+export type LogoOverlay = OverlayTiming & {
+  type: 'logo';
+  src: string;
+  x: number;
+  y: number;
+  width: number;
+  opacity: number;
+};
+
+// Points at a landmark: `x`/`y` are fractions of the scene's picture, so the pin follows the camera motion.
+export type CalloutOverlay = OverlayTiming & {
+  type: 'callout';
+  label: string;
+  x: number;
+  y: number;
+};
+
+// Position is the centre of the badge as a fraction of the safe area; `size` is in pixels at 720p.
+export type BadgeOverlay = OverlayTiming & {
+  type: 'badge';
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  color: string;
+};
+
+export type LowerThirdOverlay = OverlayTiming & {
+  type: 'lower-third';
+  title: string;
+  subtitle: string;
+};
+
+// Covers the frame with a call to action; the QR code, when shown, encodes `url`.
+export type EndCardOverlay = OverlayTiming & {
+  type: 'end-card';
+  headline: string;
+  url: string;
+  qrCode: boolean;
+};
+
+export type SceneOverlay = LogoOverlay | CalloutOverlay | BadgeOverlay | LowerThirdOverlay | EndCardOverlay;
+
+// Where and when a scene's overlays are drawn. `media` is where the scene's picture sits in the frame.
+export type OverlayFrame = {
+  theme: Theme;
+  safe: OverlayRect;
+  unit: number;
+  media: OverlayRect;
+  images: Map<string, ImageSource>;
+  sceneElapsed: number;
+  sceneDuration: number;
+};
+
+export const OVERLAY_TYPE_LABELS: Record<OverlayType, string> = {
+  logo: 'Logo watermark',
+  callout: 'Map pin callout',
+  badge: 'Price / offer badge',
+  'lower-third': 'Lower third',
+  'end-card': 'Call-to-action end card'
+};
+
+const FADE_SECONDS = 0.4;
+const PANEL_FILL = 'rgba(3, 7, 18, 0.72)';
+const END_CARD_SCRIM = 'rgba(3, 7, 18, 0.82)';
+const BADGE_TEXT = 'rgba(255, 255, 255, 0.96)';
+const QR_QUIET_ZONE = 4;
+
+const qrCodes = new Map<string, boolean[][] | null>();
+
+export function isOverlayType(value: unknown): value is OverlayType {
+  return typeof value === 'string' && Object.hasOwn(OVERLAY_TYPE_LABELS, value);
+}
+
+export function createOverlay(type: OverlayType): SceneOverlay {
+  const timing = { id: createId('overlay'), start: 0, end: null };
+  switch (type) {
+    case 'logo':
+      return { ...timing, type, src: '', x: 0.9, y: 0.12, width: 140, opacity: 0.85 };
+    case 'callout':
+      return { ...timing, type, label: 'Landmark', x: 0.5, y: 0.5 };
+    case 'badge':
+      return { ...timing, type, text: 'From AED 499', x: 0.82, y: 0.2, size: 30, color: '#dc2626' };
+    case 'lower-third':
+      return { ...timing, type, title: 'Location name', subtitle: '' };
+    case 'end-card':
+      return { ...timing, type, headline: 'Book your stay', url: 'https://', qrCode: true };
+  }
+}
+
+// Cached per URL; null when the text is too long to encode.
+export function overlayQrCode(url: string) {
+  if (!qrCodes.has(url)) {
+    try {
+      qrCodes.set(url, encodeQrCode(url));
+    } catch {
+      qrCodes.set(url, null);
+    }
+  }
+  return qrCodes.get(url) ?? null;
+}
+
+function roundedRect(
+  context: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+) {
+  const r = Math.min(radius, width / 2, height / 2);
+  context.beginPath();
+  context.moveTo(x + r, y);
+  context.arcTo(x + width, y, x + width, y + height, r);
+  context.arcTo(x + width, y + height, x, y + height, r);
+  context.arcTo(x, y + height, x, y, r);
+  context.arcTo(x, y, x + width, y, r);
+  context.closePath();
+}
+
+function drawLogoOverlay(
+  context: CanvasRenderingContext2D,
+  overlay: LogoOverlay,
+  { safe, unit, images }: OverlayFrame
+) {
+  const image = images.get(overlay.src);
+  if (!image) return;
+  const width = overlay.width * unit;
+  const height = (image.height / image.width) * width;
+  context.globalAlpha *= overlay.opacity;
+  context.drawImage(
+    image,
+    safe.x + safe.width * overlay.x - width / 2,
+    safe.y + safe.height * overlay.y - height / 2,
+    width,
+    height
+  );
+}
+
+// The label sits above the pin, or below it when the pin is too close to the top of the safe area.
+function drawCallout(
+  context: CanvasRenderingContext2D,
+  overlay: CalloutOverlay,
+  { theme, safe, unit, media }: OverlayFrame,
+  amount: number
+) {
+  const pinX = media.x + media.width * overlay.x;
+  const pinY = media.y + media.height * overlay.y;
+  const radius = 9 * unit;
+  const stem = 56 * unit * amount;
+  const padding = 12 * unit;
+  const fontSize = 24 * unit;
+
+  context.font = `${fontSize}px ${theme.fonts.body}`;
+  const labelWidth = context.measureText(overlay.label).width + padding * 2;
+  const labelHeight = fontSize + padding * 1.5;
+  const below = pinY - stem - labelHeight < safe.y;
+  const labelX = clamp(pinX - labelWidth / 2, safe.x, safe.x + safe.width - labelWidth);
+  const labelY = below ? pinY + stem : pinY - stem - labelHeight;
+
+  context.strokeStyle = theme.colors.progressFill;
+  context.lineWidth = 2 * unit;
+  context.beginPath();
+  context.moveTo(pinX, pinY);
+  context.lineTo(pinX, below ? labelY : labelY + labelHeight);
+  context.stroke();
+
+  context.fillStyle = theme.colors.progressFill;
+  context.beginPath();
+  context.arc(pinX, pinY, radius, 0, Math.PI * 2);
+  context.fill();
+  context.fillStyle = PANEL_FILL;
+  context.beginPath();
+  context.arc(pinX, pinY, radius * 0.4, 0, Math.PI * 2);
+  context.fill();
+
+  if (!overlay.label.trim()) return;
+  context.fillStyle = PANEL_FILL;
+  roundedRect(context, labelX, labelY, labelWidth, labelHeight, 8 * unit);
+  context.fill();
+  context.fillStyle = theme.colors.title;
+  context.textBaseline = 'middle';
+  context.textAlign = 'left';
+  context.fillText(overlay.label, labelX + padding, labelY + labelHeight / 2);
+}
+
+function drawBadge(
+  context: CanvasRenderingContext2D,
+  overlay: BadgeOverlay,
+  { theme, safe, unit }: OverlayFrame,
+  amount: number
+) {
+  if (!overlay.text.trim()) return;
+  const fontSize = overlay.size * unit;
+  context.font = `${fontSize}px ${theme.fonts.kicker}`;
+  const width = context.measureText(overlay.text).width + fontSize * 1.2;
+  const height = fontSize * 1.7;
+  const scale = 0.85 + 0.15 * amount;
+
+  context.translate(safe.x + safe.width * overlay.x, safe.y + safe.height * overlay.y);
+  context.scale(scale, scale);
+  context.fillStyle = overlay.color;
+  roundedRect(context, -width / 2, -height / 2, width, height, height / 2);
+  context.fill();
+  context.fillStyle = BADGE_TEXT;
+  context.textBaseline = 'middle';
+  context.textAlign = 'center';
+  context.fillText(overlay.text, 0, 0);
+}
+
+// Sits at the lower left of the safe area, clear of the progress bar and timecode, and slides in.
+function drawLowerThird(
+  context: CanvasRenderingContext2D,
+  overlay: LowerThirdOverlay,
+  { theme, safe, unit }: OverlayFrame,
+  amount: number
+) {
+  if (!overlay.title.trim()) return;
+  const padding = 16 * unit;
+  const accent = 6 * unit;
+  const titleSize = 34 * unit;
+  const subtitleSize = 22 * unit;
+  const subtitle = overlay.subtitle.trim();
+
+  context.font = `${subtitleSize}px ${theme.fonts.body}`;
+  const subtitleWidth = subtitle ? context.measureText(subtitle).width : 0;
+  context.font = `${titleSize}px ${theme.fonts.title}`;
+  const titleWidth = context.measureText(overlay.title).width;
+  const width = Math.min(safe.width * 0.7, Math.max(titleWidth, subtitleWidth) + padding * 2 + accent);
+  const height = titleSize * 1.2 + (subtitle ? subtitleSize * 1.3 : 0) + padding * 2;
+  const x = safe.x - (1 - amount) * 40 * unit;
+  const y = safe.y + safe.height - 48 * unit - height;
+  const textX = x + accent + padding;
+  const textWidth = width - accent - padding * 2;
+
+  context.fillStyle = PANEL_FILL;
+  context.fillRect(x, y, width, height);
+  context.fillStyle = theme.colors.progressFill;
+  context.fillRect(x, y, accent, height);
+  context.textBaseline = 'top';
+  context.textAlign = 'left';
+  context.fillStyle = theme.colors.title;
+  context.fillText(overlay.title, textX, y + padding, textWidth);
+  if (subtitle) {
+    context.font = `${subtitleSize}px ${theme.fonts.body}`;
+    context.fillStyle = theme.colors.subtitle;
+    context.fillText(subtitle, textX, y + padding + titleSize * 1.2, textWidth);
+  }
+}
+
+function drawQrCode(
+  context: CanvasRenderingContext2D,
+  modules: boolean[][],
+  x: number,
+  y: number,
+  size: number
+) {
+  const cell = size / (modules.length + QR_QUIET_ZONE * 2);
+  context.fillStyle = '#ffffff';
+  context.fillRect(x, y, size, size);
+  context.fillStyle = '#000000';
+  modules.forEach((row, rowIndex) =>
+    row.forEach((dark, column) => {
+      if (!dark) return;
+      // Cells are overdrawn by a hair so anti-aliasing leaves no seams between neighbouring modules.
+      context.fillRect(
+        x + (column + QR_QUIET_ZONE) * cell,
+        y + (rowIndex + QR_QUIET_ZONE) * cell,
+        cell + 0.5,
+        cell + 0.5
+      );
+    })
+  );
+}
+
+// Headline, QR code and URL are stacked and centred in the safe area over a dark scrim.
+function drawEndCard(
+  context: CanvasRenderingContext2D,
+  overlay: EndCardOverlay,
+  { theme, safe, unit }: OverlayFrame,
+  frameWidth: number,
+  frameHeight: number
+) {
+  context.fillStyle = END_CARD_SCRIM;
+  context.fillRect(0, 0, frameWidth, frameHeight);
+
+  const headlineSize = 56 * unit;
+  const urlSize = 26 * unit;
+  const gap = 24 * unit;
+  const url = overlay.url.trim();
+  const modules = overlay.qrCode && url ? overlayQrCode(url) : null;
+  const qrSize = modules ? Math.min(240 * unit, safe.height * 0.4) : 0;
+
+  context.font = `${headlineSize}px ${theme.fonts.title}`;
+  const lines = overlay.headline.trim() ? wrapLines(context, overlay.headline, safe.width * 0.8) : [];
+  const headlineHeight = lines.length * headlineSize * 1.2;
+  const blocks = [headlineHeight, qrSize, url ? urlSize * 1.2 : 0].filter((height) => height > 0);
+  const total = blocks.reduce((sum, height) => sum + height, 0) + gap * Math.max(0, blocks.length - 1);
+  const centreX = safe.x + safe.width / 2;
+  let y = safe.y + (safe.height - total) / 2;
+
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  context.fillStyle = theme.colors.title;
+  lines.forEach((line, index) => context.fillText(line, centreX, y + index * headlineSize * 1.2));
+  if (headlineHeight > 0) y += headlineHeight + gap;
+  if (modules) {
+    drawQrCode(context, modules, centreX - qrSize / 2, y, qrSize);
+    y += qrSize + gap;
+  }
+  if (url) {
+    context.font = `${urlSize}px ${theme.fonts.body}`;
+    context.fillStyle = theme.colors.progressFill;
+    context.fillText(url.replace(/^https?:\/\//i, ''), centreX, y, safe.width);
+  }
+}
+
+export function drawOverlay(
+  context: CanvasRenderingContext2D,
+  overlay: SceneOverlay,
+  frame: OverlayFrame,
+  frameWidth: number,
+  frameHeight: number
+) {
+  const end = Math.min(overlay.end ?? frame.sceneDuration, frame.sceneDuration);
+  const { sceneElapsed } = frame;
+  if (sceneElapsed < overlay.start || sceneElapsed >= end) return;
+  const fade = Math.min(FADE_SECONDS, (end - overlay.start) / 2);
+  const amount = Math.min(
+    clamp((sceneElapsed - overlay.start) / fade, 0, 1),
+    clamp((end - sceneElapsed) / fade, 0, 1)
+  );
+
+  context.save();
+  context.globalAlpha *= amount;
+  switch (overlay.type) {
+    case 'logo':
+      drawLogoOverlay(context, overlay, frame);
+      break;
+    case 'callout':
+      drawCallout(context, overlay, frame, amount);
+      break;
+    case 'badge':
+      drawBadge(context, overlay, frame, amount);
+      break;
+    case 'lower-third':
+      drawLowerThird(context, overlay, frame, amount);
+      break;
+    case 'end-card':
+      drawEndCard(context, overlay, frame, frameWidth, frameHeight);
+      break;
+  }
+  context.restore();
+}
+
+// Image URLs the scenes' logo overlays need loaded before drawing.
+export function overlayImageSources(overlays: SceneOverlay[]) {
+  return overlays.flatMap((overlay) => (overlay.type === 'logo' && overlay.src ? [overlay.src] : []));
+}
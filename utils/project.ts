@@ -0,0 +1,688 @@
+import type { SceneConfig } from '../components/VideoCanvas';
+import { DEFAULT_AUDIO, type AudioSettings } from './audioMix';
+import { CAPTION_POSITION_LABELS, DEFAULT_CAPTIONS, type CaptionSettings } from './captions';
+import { isEasingName } from './easing';
+import type { CustomFont } from './fonts';
+import { DEFAULT_GRADE, GRADE_ADJUSTMENTS, type ColorGrade } from './grading';
+import { DEFAULT_LOCALES, isLocaleCode, type LocaleSettings } from './locales';
+import { isSceneMediaType } from './media';
+import { MAX_MOTION_ZOOM } from './motion';
+import { isOverlayType, type OverlayType } from './overlays';
+import { createDefaultTextLayers, isTextAlign, isTextAnimationType, isTextStyle } from './textLayers';
+import { DEFAULT_THEME, FRAME_STYLE_LABELS, LOGO_POSITION_LABELS, type Theme } from './themes';
+import { isTransitionType } from './transitions';
+
+export const PROJECT_VERSION = 14;
+
+export type ProjectSettings = {
+  fps: number;
+  resolution: {
+    width: number;
+    height: number;
+  };
+  // Declared reel length in seconds; null lets the reel run as long as its scenes.
+  duration: number | null;
+};
+
+export type ProjectDocument = {
+  version: typeof PROJECT_VERSION;
+  name: string;
+  settings: ProjectSettings;
+  scenes: SceneConfig[];
+  audio: AudioSettings;
+  theme: Theme;
+  captions: CaptionSettings;
+  locales: LocaleSettings;
+  fonts: CustomFont[];
+  grade: ColorGrade;
+};
+
+export class ProjectValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(
+      issues.length === 1
+        ? `Invalid project file: ${issues[0]}`
+        : `Invalid project file (${issues.length} problems):\n${issues.map((issue) => `• ${issue}`).join('\n')}`
+    );
+    this.name = 'ProjectValidationError';
+    this.issues = issues;
+  }
+}
+
+type Migration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+const DEFAULT_SETTINGS: ProjectSettings = {
+  fps: 30,
+  resolution: { width: 1280, height: 720 },
+  duration: null
+};
+
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 0 is the bare scene array that predates project files. Anything that is not a list is passed
+  // through for validation to report.
+  0: (document) => ({
+    version: 1,
+    name: 'Imported reel',
+    settings: DEFAULT_SETTINGS,
+    scenes: Array.isArray(document.scenes)
+      ? document.scenes.map((scene, index) =>
+          isRecord(scene) && typeof scene.id !== 'string' ? { ...scene, id: `scene-${index + 1}` } : scene
+        )
+      : document.scenes
+  }),
+  // Version 2 added optional per-scene transitions; version 1 scenes are all hard cuts.
+  1: (document) => ({ ...document, version: 2 }),
+  // Version 3 added optional per-scene camera motion; older scenes keep the centred zoom.
+  2: (document) => ({ ...document, version: 3 }),
+  // Version 4 added the audio section; older reels were silent.
+  3: (document) => ({ ...document, version: 4, audio: DEFAULT_AUDIO }),
+  // Version 5 added the theme; older reels used the built-in Visit Dubai styling.
+  4: (document) => ({ ...document, version: 5, theme: DEFAULT_THEME }),
+  // Version 6 derives scene starts from durations and adds an optional declared reel length.
+  5: (document) => ({
+    ...document,
+    version: 6,
+    settings: isRecord(document.settings) ? { ...document.settings, duration: null } : document.settings,
+    scenes: Array.isArray(document.scenes)
+      ? document.scenes.map((scene) => {
+          if (!isRecord(scene)) return scene;
+          const { start: _start, ...rest } = scene;
+          return rest;
+        })
+      : document.scenes
+  }),
+  // Version 7 replaced the scene image URL with a media union (image, video clip, colour or gradient).
+  6: (document) => ({
+    ...document,
+    version: 7,
+    scenes: Array.isArray(document.scenes)
+      ? document.scenes.map((scene) => {
+          if (!isRecord(scene)) return scene;
+          const { image, ...rest } = scene;
+          return { ...rest, media: { type: 'image', src: image } };
+        })
+      : document.scenes
+  }),
+  // Version 8 moved the fixed kicker/title/subtitle/description copy into per-scene text layers.
+  7: (document) => {
+    const { theme } = document;
+    const kicker = isRecord(theme) && typeof theme.kicker === 'string' ? theme.kicker : '';
+    return {
+      ...document,
+      version: 8,
+      scenes: Array.isArray(document.scenes)
+        ? document.scenes.map((scene) => {
+            if (!isRecord(scene)) return scene;
+            const { subtitle, description, ...rest } = scene;
+            const text = (value: unknown) => (typeof value === 'string' ? value : '');
+            return {
+              ...rest,
+              layers: createDefaultTextLayers({
+                kicker,
+                title: text(scene.title),
+                subtitle: text(subtitle),
+                description: text(description)
+              })
+            };
+          })
+        : document.scenes
+    };
+  },
+  // Version 9 added caption settings; older reels had no captions burned in.
+  8: (document) => ({ ...document, version: 9, captions: DEFAULT_CAPTIONS }),
+  // Version 10 added per-locale translations of text layers; older reels were English only.
+  9: (document) => ({
+    ...document,
+    version: 10,
+    locales: DEFAULT_LOCALES,
+    scenes: Array.isArray(document.scenes)
+      ? document.scenes.map((scene) =>
+          isRecord(scene) && Array.isArray(scene.layers)
+            ? {
+                ...scene,
+                layers: scene.layers.map((layer) =>
+                  isRecord(layer) ? { ...layer, translations: {} } : layer
+                )
+              }
+            : scene
+        )
+      : document.scenes
+  }),
+  // Version 11 added uploaded fonts; older reels relied on the theme's web fonts only.
+  10: (document) => ({ ...document, version: 11, fonts: [] }),
+  // Version 12 added optional per-scene fallbacks; older scenes show a dark fill when their media fails.
+  11: (document) => ({ ...document, version: 12 }),
+  // Version 13 added colour grading; older reels keep the fixed look they were drawn with.
+  12: (document) => ({ ...document, version: 13, grade: DEFAULT_GRADE }),
+  // Version 14 added optional per-scene overlays; older scenes have none.
+  13: (document) => ({ ...document, version: 14 })
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export function createProject(
+  name: string,
+  scenes: SceneConfig[],
+  settings: ProjectSettings,
+  audio: AudioSettings,
+  theme: Theme,
+  captions: CaptionSettings,
+  locales: LocaleSettings,
+  fonts: CustomFont[],
+  grade: ColorGrade
+): ProjectDocument {
+  return { version: PROJECT_VERSION, name, settings, scenes, audio, theme, captions, locales, fonts, grade };
+}
+
+export function serializeProject(project: ProjectDocument) {
+  return JSON.stringify(project, null, 2);
+}
+
+function readVersion(raw: Record<string, unknown>) {
+  if (!('version' in raw)) return null;
+  return typeof raw.version === 'number' && Number.isInteger(raw.version) ? raw.version : NaN;
+}
+
+export function migrateProject(raw: unknown): Record<string, unknown> {
+  let document: Record<string, unknown>;
+  if (Array.isArray(raw)) {
+    document = { version: 0, scenes: raw };
+  } else if (isRecord(raw)) {
+    document = raw;
+  } else {
+    throw new ProjectValidationError(['the file does not contain a project object.']);
+  }
+
+  const version = readVersion(document);
+  if (version === null || Number.isNaN(version)) {
+    throw new ProjectValidationError(['"version" is missing or is not a whole number.']);
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectValidationError([
+      `the file uses project version ${version}, but this studio only understands up to version ${PROJECT_VERSION}. Update the studio and try again.`
+    ]);
+  }
+
+  let current = version;
+  while (current < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[current];
+    if (!migrate) {
+      throw new ProjectValidationError([
+        `project version ${current} can no longer be upgraded automatically.`
+      ]);
+    }
+    document = migrate(document);
+    current = readVersion(document) ?? PROJECT_VERSION;
+  }
+  return document;
+}
+
+function validateScene(scene: unknown, path: string, issues: string[]) {
+  if (!isRecord(scene)) {
+    issues.push(`${path} must be an object.`);
+    return;
+  }
+  for (const key of ['id', 'title'] as const) {
+    if (typeof scene[key] !== 'string') issues.push(`${path}.${key} must be text.`);
+  }
+  validateMedia(scene.media, `${path}.media`, issues);
+  if (!Array.isArray(scene.layers)) {
+    issues.push(`${path}.layers must be a list.`);
+  } else {
+    scene.layers.forEach((layer, index) => validateTextLayer(layer, `${path}.layers[${index}]`, issues));
+  }
+  if (!isPositiveNumber(scene.duration)) {
+    issues.push(`${path}.duration must be a positive number of seconds.`);
+  }
+  if (scene.transition !== undefined) {
+    if (!isRecord(scene.transition)) {
+      issues.push(`${path}.transition must be an object with type and duration.`);
+    } else {
+      if (!isTransitionType(scene.transition.type)) {
+        issues.push(`${path}.transition.type "${String(scene.transition.type)}" is not a known transition.`);
+      }
+      const transitionDuration = scene.transition.duration;
+      if (
+        typeof transitionDuration !== 'number' ||
+        !Number.isFinite(transitionDuration) ||
+        transitionDuration < 0
+      ) {
+        issues.push(`${path}.transition.duration must be a number of seconds (0 or more).`);
+      }
+    }
+  }
+  if (scene.motion !== undefined) validateMotion(scene.motion, `${path}.motion`, issues);
+  if (scene.fallback !== undefined) {
+    const { fallback } = scene;
+    if (!isRecord(fallback) || typeof fallback.src !== 'string' || typeof fallback.color !== 'string') {
+      issues.push(`${path}.fallback must be an object with an image URL (src) and a CSS colour.`);
+    }
+  }
+  if (scene.grade !== undefined) validateGrade(scene.grade, `${path}.grade`, issues);
+  if (scene.overlays !== undefined) {
+    if (!Array.isArray(scene.overlays)) {
+      issues.push(`${path}.overlays must be a list.`);
+    } else {
+      scene.overlays.forEach((overlay, index) =>
+        validateOverlay(overlay, `${path}.overlays[${index}]`, issues)
+      );
+    }
+  }
+}
+
+function validateMedia(media: unknown, path: string, issues: string[]) {
+  if (!isRecord(media)) {
+    issues.push(`${path} must be an object with a type.`);
+    return;
+  }
+  if (!isSceneMediaType(media.type)) {
+    issues.push(`${path}.type "${String(media.type)}" is not a known media type.`);
+    return;
+  }
+  // An empty src is a scene still waiting for its media; the asset audit reports it before rendering.
+  if ((media.type === 'image' || media.type === 'video') && typeof media.src !== 'string') {
+    issues.push(`${path}.src must be a URL, or empty until media is chosen.`);
+  }
+  if (media.type === 'video') {
+    if (typeof media.in !== 'number' || !Number.isFinite(media.in) || media.in < 0) {
+      issues.push(`${path}.in must be a number of seconds (0 or more).`);
+    }
+    const { in: clipIn, out } = media;
+    if (out !== null && !(typeof out === 'number' && typeof clipIn === 'number' && out > clipIn)) {
+      issues.push(`${path}.out must be later than the in point, or null to play to the end of the clip.`);
+    }
+    if (typeof media.muted !== 'boolean') issues.push(`${path}.muted must be true or false.`);
+    if (typeof media.volume !== 'number' || !(media.volume >= 0 && media.volume <= 1)) {
+      issues.push(`${path}.volume must be between 0 and 1.`);
+    }
+  }
+  if (media.type === 'color' && typeof media.color !== 'string') {
+    issues.push(`${path}.color must be a CSS colour.`);
+  }
+  if (media.type === 'gradient') {
+    for (const key of ['from', 'to'] as const) {
+      if (typeof media[key] !== 'string') issues.push(`${path}.${key} must be a CSS colour.`);
+    }
+    if (typeof media.angle !== 'number' || !Number.isFinite(media.angle)) {
+      issues.push(`${path}.angle must be a number of degrees.`);
+    }
+  }
+}
+
+function validateTextLayer(layer: unknown, path: string, issues: string[]) {
+  if (!isRecord(layer)) {
+    issues.push(`${path} must be an object.`);
+    return;
+  }
+  for (const key of ['id', 'text'] as const) {
+    if (typeof layer[key] !== 'string') issues.push(`${path}.${key} must be text.`);
+  }
+  if (!isRecord(layer.translations)) {
+    issues.push(`${path}.translations must be an object keyed by locale.`);
+  } else {
+    Object.entries(layer.translations).forEach(([locale, text]) => {
+      if (!isLocaleCode(locale)) issues.push(`${path}.translations has unknown locale "${locale}".`);
+      if (typeof text !== 'string') issues.push(`${path}.translations.${locale} must be text.`);
+    });
+  }
+  if (!isTextStyle(layer.style)) {
+    issues.push(`${path}.style "${String(layer.style)}" is not a known text style.`);
+  }
+  if (!isTextAlign(layer.align)) issues.push(`${path}.align must be "left", "center" or "right".`);
+  for (const key of ['x', 'y'] as const) {
+    const value = layer[key];
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+      issues.push(`${path}.${key} must be between 0 and 1.`);
+    }
+  }
+  if (typeof layer.width !== 'number' || !(layer.width > 0 && layer.width <= 1)) {
+    issues.push(`${path}.width must be above 0 and at most 1.`);
+  }
+  if (!isPositiveNumber(layer.size)) issues.push(`${path}.size must be a positive number of pixels.`);
+  if (layer.maxLines !== null && !(isPositiveNumber(layer.maxLines) && Number.isInteger(layer.maxLines))) {
+    issues.push(`${path}.maxLines must be a whole number above 0, or null for no limit.`);
+  }
+  for (const key of ['font', 'color'] as const) {
+    if (layer[key] !== null && typeof layer[key] !== 'string') {
+      issues.push(`${path}.${key} must be text, or null to follow the theme.`);
+    }
+  }
+  if (typeof layer.start !== 'number' || !Number.isFinite(layer.start) || layer.start < 0) {
+    issues.push(`${path}.start must be a number of seconds (0 or more).`);
+  }
+  const { start, end } = layer;
+  if (end !== null && !(typeof end === 'number' && typeof start === 'number' && end > start)) {
+    issues.push(`${path}.end must be later than start, or null to last until the scene ends.`);
+  }
+  for (const key of ['enter', 'exit'] as const) {
+    const animation = layer[key];
+    if (!isRecord(animation)) {
+      issues.push(`${path}.${key} must be an object with type and duration.`);
+      continue;
+    }
+    if (!isTextAnimationType(animation.type)) {
+      issues.push(`${path}.${key}.type "${String(animation.type)}" is not a known text animation.`);
+    }
+    const { duration } = animation;
+    if (typeof duration !== 'number' || !Number.isFinite(duration) || duration < 0) {
+      issues.push(`${path}.${key}.duration must be a number of seconds (0 or more).`);
+    }
+  }
+}
+
+// Fields each overlay type carries beyond its timing: text, 0–1 fractions and pixel sizes at 720p.
+const OVERLAY_FIELDS: Record<OverlayType, { text: string[]; fractions: string[]; sizes: string[] }> = {
+  logo: { text: ['src'], fractions: ['x', 'y', 'opacity'], sizes: ['width'] },
+  callout: { text: ['label'], fractions: ['x', 'y'], sizes: [] },
+  badge: { text: ['text', 'color'], fractions: ['x', 'y'], sizes: ['size'] },
+  'lower-third': { text: ['title', 'subtitle'], fractions: [], sizes: [] },
+  'end-card': { text: ['headline', 'url'], fractions: [], sizes: [] }
+};
+
+function validateOverlay(overlay: unknown, path: string, issues: string[]) {
+  if (!isRecord(overlay)) {
+    issues.push(`${path} must be an object.`);
+    return;
+  }
+  if (typeof overlay.id !== 'string') issues.push(`${path}.id must be text.`);
+  if (typeof overlay.start !== 'number' || !Number.isFinite(overlay.start) || overlay.start < 0) {
+    issues.push(`${path}.start must be a number of seconds (0 or more).`);
+  }
+  const { start, end } = overlay;
+  if (end !== null && !(typeof end === 'number' && typeof start === 'number' && end > start)) {
+    issues.push(`${path}.end must be later than start, or null to last until the scene ends.`);
+  }
+  if (!isOverlayType(overlay.type)) {
+    issues.push(`${path}.type "${String(overlay.type)}" is not a known overlay.`);
+    return;
+  }
+
+  const { text, fractions, sizes } = OVERLAY_FIELDS[overlay.type];
+  text.forEach((key) => {
+    if (typeof overlay[key] !== 'string') issues.push(`${path}.${key} must be text.`);
+  });
+  fractions.forEach((key) => {
+    const value = overlay[key];
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+      issues.push(`${path}.${key} must be between 0 and 1.`);
+    }
+  });
+  sizes.forEach((key) => {
+    if (!isPositiveNumber(overlay[key])) issues.push(`${path}.${key} must be a positive number of pixels.`);
+  });
+  if (overlay.type === 'end-card' && typeof overlay.qrCode !== 'boolean') {
+    issues.push(`${path}.qrCode must be true or false.`);
+  }
+}
+
+function validateMotion(motion: unknown, path: string, issues: string[]) {
+  if (!isRecord(motion)) {
+    issues.push(`${path} must be an object with easing, start and end.`);
+    return;
+  }
+  if (!isEasingName(motion.easing)) {
+    issues.push(`${path}.easing "${String(motion.easing)}" is not a known easing.`);
+  }
+  for (const key of ['start', 'end'] as const) {
+    const keyframe = motion[key];
+    if (!isRecord(keyframe)) {
+      issues.push(`${path}.${key} must be an object with x, y and zoom.`);
+      continue;
+    }
+    for (const axis of ['x', 'y'] as const) {
+      const value = keyframe[axis];
+      if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+        issues.push(`${path}.${key}.${axis} must be between 0 and 1.`);
+      }
+    }
+    if (typeof keyframe.zoom !== 'number' || !(keyframe.zoom >= 1 && keyframe.zoom <= MAX_MOTION_ZOOM)) {
+      issues.push(`${path}.${key}.zoom must be between 1 and ${MAX_MOTION_ZOOM}.`);
+    }
+  }
+}
+
+function validateSettings(settings: unknown, issues: string[]) {
+  if (!isRecord(settings)) {
+    issues.push('settings must be an object.');
+    return;
+  }
+  if (!isPositiveNumber(settings.fps) || settings.fps > 120) {
+    issues.push('settings.fps must be between 1 and 120.');
+  }
+  if (settings.duration !== null && !isPositiveNumber(settings.duration)) {
+    issues.push('settings.duration must be a positive number of seconds, or null to fit the scenes.');
+  }
+  if (!isRecord(settings.resolution)) {
+    issues.push('settings.resolution must be an object with width and height.');
+    return;
+  }
+  for (const key of ['width', 'height'] as const) {
+    const value = settings.resolution[key];
+    if (!isPositiveNumber(value) || !Number.isInteger(value)) {
+      issues.push(`settings.resolution.${key} must be a whole number of pixels.`);
+    }
+  }
+}
+
+function validateAudio(audio: unknown, sceneIds: unknown[], issues: string[]) {
+  if (!isRecord(audio)) {
+    issues.push('audio must be an object with tracks and ducking.');
+    return;
+  }
+  if (!Array.isArray(audio.tracks)) {
+    issues.push('audio.tracks must be a list.');
+  } else {
+    audio.tracks.forEach((track, index) => {
+      const path = `audio.tracks[${index}]`;
+      if (!isRecord(track)) {
+        issues.push(`${path} must be an object.`);
+        return;
+      }
+      for (const key of ['id', 'name', 'src'] as const) {
+        if (typeof track[key] !== 'string') issues.push(`${path}.${key} must be text.`);
+      }
+      if (track.kind !== 'music' && track.kind !== 'narration') {
+        issues.push(`${path}.kind must be "music" or "narration".`);
+      }
+      if (track.sceneId !== undefined && !sceneIds.includes(track.sceneId)) {
+        issues.push(`${path}.sceneId "${String(track.sceneId)}" does not match any scene.`);
+      }
+      if (typeof track.offset !== 'number' || !Number.isFinite(track.offset)) {
+        issues.push(`${path}.offset must be a number of seconds.`);
+      }
+      if (typeof track.volume !== 'number' || !(track.volume >= 0 && track.volume <= 1)) {
+        issues.push(`${path}.volume must be between 0 and 1.`);
+      }
+      if (track.transcript !== undefined && typeof track.transcript !== 'string') {
+        issues.push(`${path}.transcript must be text.`);
+      }
+      for (const key of ['fadeIn', 'fadeOut'] as const) {
+        const value = track[key];
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          issues.push(`${path}.${key} must be a number of seconds (0 or more).`);
+        }
+      }
+      if (typeof track.loop !== 'boolean') issues.push(`${path}.loop must be true or false.`);
+    });
+  }
+  const { ducking } = audio;
+  if (!isRecord(ducking)) {
+    issues.push('audio.ducking must be an object with enabled, level and ramp.');
+    return;
+  }
+  if (typeof ducking.enabled !== 'boolean') issues.push('audio.ducking.enabled must be true or false.');
+  if (typeof ducking.level !== 'number' || !(ducking.level >= 0 && ducking.level <= 1)) {
+    issues.push('audio.ducking.level must be between 0 and 1.');
+  }
+  if (typeof ducking.ramp !== 'number' || !Number.isFinite(ducking.ramp) || ducking.ramp < 0) {
+    issues.push('audio.ducking.ramp must be a number of seconds (0 or more).');
+  }
+}
+
+function validateStringGroup(group: unknown, keys: readonly string[], path: string, issues: string[]) {
+  if (!isRecord(group)) {
+    issues.push(`${path} must be an object.`);
+    return;
+  }
+  for (const key of keys) {
+    if (typeof group[key] !== 'string') issues.push(`${path}.${key} must be text.`);
+  }
+}
+
+function validateTheme(theme: unknown, issues: string[]) {
+  if (!isRecord(theme)) {
+    issues.push('theme must be an object.');
+    return;
+  }
+  for (const key of ['id', 'name', 'kicker'] as const) {
+    if (typeof theme[key] !== 'string') issues.push(`theme.${key} must be text.`);
+  }
+  validateStringGroup(theme.colors, Object.keys(DEFAULT_THEME.colors), 'theme.colors', issues);
+  validateStringGroup(theme.fonts, Object.keys(DEFAULT_THEME.fonts), 'theme.fonts', issues);
+
+  const { gradient, frame, logo } = theme;
+  if (
+    !isRecord(gradient) ||
+    typeof gradient.start !== 'number' ||
+    !Array.isArray(gradient.stops) ||
+    gradient.stops.length !== 3 ||
+    gradient.stops.some((stop) => typeof stop !== 'string')
+  ) {
+    issues.push('theme.gradient must have a numeric start and exactly three colour stops.');
+  }
+  if (!isRecord(frame)) {
+    issues.push('theme.frame must be an object.');
+  } else {
+    if (typeof frame.style !== 'string' || !Object.hasOwn(FRAME_STYLE_LABELS, frame.style)) {
+      issues.push(`theme.frame.style "${String(frame.style)}" is not a known frame style.`);
+    }
+    if (typeof frame.inset !== 'number' || frame.inset < 0) issues.push('theme.frame.inset must be 0 or more.');
+    if (typeof frame.lineWidth !== 'number' || frame.lineWidth < 0) {
+      issues.push('theme.frame.lineWidth must be 0 or more.');
+    }
+  }
+  if (logo !== null) {
+    if (!isRecord(logo)) {
+      issues.push('theme.logo must be an object or null.');
+    } else {
+      if (typeof logo.src !== 'string') issues.push('theme.logo.src must be text.');
+      if (typeof logo.position !== 'string' || !Object.hasOwn(LOGO_POSITION_LABELS, logo.position)) {
+        issues.push(`theme.logo.position "${String(logo.position)}" is not a known position.`);
+      }
+      if (!isPositiveNumber(logo.width)) issues.push('theme.logo.width must be a positive number of pixels.');
+      if (typeof logo.opacity !== 'number' || !(logo.opacity >= 0 && logo.opacity <= 1)) {
+        issues.push('theme.logo.opacity must be between 0 and 1.');
+      }
+    }
+  }
+}
+
+function validateCaptions(captions: unknown, issues: string[]) {
+  if (!isRecord(captions)) {
+    issues.push('captions must be an object with burnIn, position and size.');
+    return;
+  }
+  if (typeof captions.burnIn !== 'boolean') issues.push('captions.burnIn must be true or false.');
+  if (typeof captions.position !== 'string' || !Object.hasOwn(CAPTION_POSITION_LABELS, captions.position)) {
+    issues.push(`captions.position "${String(captions.position)}" is not a known caption position.`);
+  }
+  if (!isPositiveNumber(captions.size)) issues.push('captions.size must be a positive number of pixels.');
+}
+
+function validateLocales(locales: unknown, issues: string[]) {
+  if (!isRecord(locales)) {
+    issues.push('locales must be an object with base and additional.');
+    return;
+  }
+  const { base, additional } = locales;
+  if (!isLocaleCode(base)) issues.push(`locales.base "${String(base)}" is not a supported locale.`);
+  if (!Array.isArray(additional)) {
+    issues.push('locales.additional must be a list.');
+    return;
+  }
+  additional.forEach((locale, index) => {
+    if (!isLocaleCode(locale)) {
+      issues.push(`locales.additional[${index}] "${String(locale)}" is not a supported locale.`);
+    } else if (locale === base || additional.indexOf(locale) !== index) {
+      issues.push(`locales.additional lists "${locale}" more than once.`);
+    }
+  });
+}
+
+function validateFonts(fonts: unknown, issues: string[]) {
+  if (!Array.isArray(fonts)) {
+    issues.push('fonts must be a list.');
+    return;
+  }
+  fonts.forEach((font, index) => {
+    const path = `fonts[${index}]`;
+    if (!isRecord(font)) {
+      issues.push(`${path} must be an object.`);
+      return;
+    }
+    if (typeof font.id !== 'string' || !font.id) issues.push(`${path}.id must be a non-empty string.`);
+    if (typeof font.family !== 'string' || !font.family.trim()) issues.push(`${path}.family must be a name.`);
+    if (typeof font.src !== 'string' || !font.src) issues.push(`${path}.src must be a font file reference.`);
+  });
+}
+
+function validateGrade(grade: unknown, path: string, issues: string[]) {
+  if (!isRecord(grade)) {
+    issues.push(`${path} must be an object of grading adjustments.`);
+    return;
+  }
+  (Object.keys(GRADE_ADJUSTMENTS) as Array<keyof ColorGrade>).forEach((key) => {
+    const { min, max } = GRADE_ADJUSTMENTS[key];
+    const value = grade[key];
+    if (typeof value !== 'number' || !(value >= min && value <= max)) {
+      issues.push(`${path}.${key} must be between ${min} and ${max}.`);
+    }
+  });
+}
+
+export function validateProject(raw: unknown): ProjectDocument {
+  const document = migrateProject(raw);
+  const issues: string[] = [];
+
+  if (typeof document.name !== 'string') issues.push('name must be text.');
+  validateSettings(document.settings, issues);
+
+  if (!Array.isArray(document.scenes) || document.scenes.length === 0) {
+    issues.push('scenes must be a non-empty list.');
+  } else {
+    document.scenes.forEach((scene, index) => validateScene(scene, `scenes[${index}]`, issues));
+    const ids = document.scenes.filter(isRecord).map((scene) => scene.id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate !== undefined) issues.push(`scene id "${String(duplicate)}" is used more than once.`);
+  }
+  validateAudio(
+    document.audio,
+    Array.isArray(document.scenes) ? document.scenes.filter(isRecord).map((scene) => scene.id) : [],
+    issues
+  );
+  validateTheme(document.theme, issues);
+  validateCaptions(document.captions, issues);
+  validateLocales(document.locales, issues);
+  validateFonts(document.fonts, issues);
+  validateGrade(document.grade, 'grade', issues);
+
+  if (issues.length > 0) throw new ProjectValidationError(issues);
+  return document as ProjectDocument;
+}
+
+export function parseProject(json: string): ProjectDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : 'unknown syntax error';
+    throw new ProjectValidationError([`the file is not valid JSON (${detail}).`]);
+  }
+  return validateProject(raw);
+}
@@ -0,0 +1,47 @@
+import { INDEXED_DB_SUPPORT, PROJECT_STORE, withStore } from './database';
+import { validateProject, type ProjectDocument } from './project';
+
+export { INDEXED_DB_SUPPORT };
+
+const AUTOSAVE_KEY = 'autosave';
+const UNREADABLE_AUTOSAVE_KEY = 'autosave-unreadable';
+
+export async function saveAutosave(project: ProjectDocument) {
+  if (!INDEXED_DB_SUPPORT) return;
+  await withStore(PROJECT_STORE, 'readwrite', (store) =>
+    store.put({ savedAt: Date.now(), project }, AUTOSAVE_KEY)
+  );
+}
+
+export async function loadAutosave(): Promise<{ savedAt: number; project: ProjectDocument } | null> {
+  if (!INDEXED_DB_SUPPORT) return null;
+  const record = await withStore<{ savedAt: number; project: unknown } | undefined>(
+    PROJECT_STORE,
+    'readonly',
+    (store) => store.get(AUTOSAVE_KEY)
+  );
+  if (!record) return null;
+  try {
+    return { savedAt: record.savedAt, project: validateProject(record.project) };
+  } catch (caught) {
+    // Kept aside so the next autosave cannot overwrite the only copy of the work.
+    await withStore(PROJECT_STORE, 'readwrite', (store) => store.put(record, UNREADABLE_AUTOSAVE_KEY));
+    throw caught;
+  }
+}
+
+// The raw project of the last autosave that failed to restore, so it can be downloaded and repaired by hand.
+export async function loadUnreadableAutosave(): Promise<unknown> {
+  if (!INDEXED_DB_SUPPORT) return null;
+  const record = await withStore<{ savedAt: number; project: unknown } | undefined>(
+    PROJECT_STORE,
+    'readonly',
+    (store) => store.get(UNREADABLE_AUTOSAVE_KEY)
+  );
+  return record?.project ?? null;
+}
+
+export async function clearAutosave() {
+  if (!INDEXED_DB_SUPPORT) return;
+  await withStore(PROJECT_STORE, 'readwrite', (store) => store.delete(AUTOSAVE_KEY));
+}
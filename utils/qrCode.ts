@@ -0,0 +1,275 @@
+// A minimal QR Code encoder for end-card links: byte mode at error correction level M, versions 1 to 10,
+// which holds up to 213 bytes of UTF-8. Follows ISO/IEC 18004; masks are chosen by a simplified penalty.
+
+const MAX_VERSION = 10;
+// Level M, indexed by version.
+const EC_CODEWORDS_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const EC_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const FORMAT_LEVEL_M = 0;
+
+type Grid = boolean[][];
+
+function rawDataModules(version: number) {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+}
+
+function dataCodewords(version: number) {
+  return Math.floor(rawDataModules(version) / 8) - EC_CODEWORDS_PER_BLOCK[version] * EC_BLOCKS[version];
+}
+
+function alignmentPositions(version: number) {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let position = size - 7; positions.length < count; position -= step) positions.splice(1, 0, position);
+  return positions;
+}
+
+function gfMultiply(x: number, y: number) {
+  let product = 0;
+  for (let bit = 7; bit >= 0; bit -= 1) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> bit) & 1) * x;
+  }
+  return product;
+}
+
+function reedSolomonDivisor(degree: number) {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let term = 0; term < degree; term += 1) {
+    for (let index = 0; index < degree; index += 1) {
+      divisor[index] = gfMultiply(divisor[index], root);
+      if (index + 1 < degree) divisor[index] ^= divisor[index + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return divisor;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const remainder = divisor.map(() => 0);
+  data.forEach((byte) => {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    divisor.forEach((coefficient, index) => {
+      remainder[index] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return remainder;
+}
+
+function encodeData(bytes: Uint8Array, version: number) {
+  const capacity = dataCodewords(version);
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let bit = length - 1; bit >= 0; bit -= 1) bits.push((value >>> bit) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let offset = 0; offset < bits.length; offset += 8) {
+    codewords.push(bits.slice(offset, offset + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+}
+
+// Splits the data into blocks, appends each block's error correction and interleaves the result.
+function addErrorCorrection(data: number[], version: number) {
+  const blockCount = EC_BLOCKS[version];
+  const ecLength = EC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortLength = Math.floor(rawCodewords / blockCount) - ecLength;
+  const divisor = reedSolomonDivisor(ecLength);
+
+  const blocks: number[][] = [];
+  for (let block = 0, offset = 0; block < blockCount; block += 1) {
+    const length = shortLength + (block < shortBlocks ? 0 : 1);
+    blocks.push(data.slice(offset, offset + length));
+    offset += length;
+  }
+  const result: number[] = [];
+  for (let index = 0; index <= shortLength; index += 1) {
+    blocks.forEach((block) => {
+      if (index < block.length) result.push(block[index]);
+    });
+  }
+  const corrections = blocks.map((block) => reedSolomonRemainder(block, divisor));
+  for (let index = 0; index < ecLength; index += 1) {
+    corrections.forEach((correction) => result.push(correction[index]));
+  }
+  return result;
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+function createSymbol(version: number) {
+  const size = version * 4 + 17;
+  const modules: Grid = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved: Grid = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  for (let index = 0; index < size; index += 1) {
+    set(6, index, index % 2 === 0);
+    set(index, 6, index % 2 === 0);
+  }
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4]
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+  const alignments = alignmentPositions(version);
+  const last = alignments.length - 1;
+  alignments.forEach((cx, i) =>
+    alignments.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    })
+  );
+  if (version >= 7) {
+    let remainder = version;
+    for (let bit = 0; bit < 12; bit += 1) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let bit = 0; bit < 18; bit += 1) {
+      const dark = ((bits >>> bit) & 1) === 1;
+      const a = size - 11 + (bit % 3);
+      const b = Math.floor(bit / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
+  return { size, modules, reserved, set };
+}
+
+function drawFormatBits(symbol: ReturnType<typeof createSymbol>, mask: number) {
+  const { size, set } = symbol;
+  const data = (FORMAT_LEVEL_M << 3) | mask;
+  let remainder = data;
+  for (let bit = 0; bit < 10; bit += 1) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const dark = (bit: number) => ((bits >>> bit) & 1) === 1;
+
+  for (let bit = 0; bit <= 5; bit += 1) set(8, bit, dark(bit));
+  set(8, 7, dark(6));
+  set(8, 8, dark(7));
+  set(7, 8, dark(8));
+  for (let bit = 9; bit < 15; bit += 1) set(14 - bit, 8, dark(bit));
+  for (let bit = 0; bit < 8; bit += 1) set(size - 1 - bit, 8, dark(bit));
+  for (let bit = 8; bit < 15; bit += 1) set(8, size - 15 + bit, dark(bit));
+  set(8, size - 8, true);
+}
+
+function placeCodewords({ size, modules, reserved }: ReturnType<typeof createSymbol>, codewords: number[]) {
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step += 1) {
+      const y = upward ? size - 1 - step : step;
+      for (let x = right; x > right - 2; x -= 1) {
+        if (reserved[y][x] || bit >= codewords.length * 8) continue;
+        modules[y][x] = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) === 1;
+        bit += 1;
+      }
+    }
+  }
+}
+
+function applyMask({ size, modules, reserved }: ReturnType<typeof createSymbol>, mask: number) {
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      if (!reserved[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+    }
+  }
+}
+
+// Scores long runs, 2×2 blocks and dark/light imbalance; the finder-lookalike rule is left out.
+function penalty(modules: Grid) {
+  const size = modules.length;
+  let score = 0;
+  let dark = 0;
+  for (let a = 0; a < size; a += 1) {
+    let rowRun = 1;
+    let columnRun = 1;
+    for (let b = 0; b < size; b += 1) {
+      if (modules[a][b]) dark += 1;
+      if (b === 0) continue;
+      rowRun = modules[a][b] === modules[a][b - 1] ? rowRun + 1 : 1;
+      columnRun = modules[b][a] === modules[b - 1][a] ? columnRun + 1 : 1;
+      if (rowRun === 5) score += 3;
+      else if (rowRun > 5) score += 1;
+      if (columnRun === 5) score += 3;
+      else if (columnRun > 5) score += 1;
+      const colour = modules[a][b];
+      if (
+        a > 0 &&
+        colour === modules[a - 1][b] &&
+        colour === modules[a][b - 1] &&
+        colour === modules[a - 1][b - 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  return score + Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size)) * 10;
+}
+
+// Returns the symbol's modules as rows of dark (true) and light (false), without the quiet zone.
+export function encodeQrCode(text: string): boolean[][] {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  // Mode and character count take up to 20 bits ahead of the data.
+  const headerBytes = (candidate: number) => (candidate < 10 ? 2 : 3);
+  while (version <= MAX_VERSION && bytes.length + headerBytes(version) > dataCodewords(version)) version += 1;
+  if (version > MAX_VERSION) throw new Error('Text is too long for a QR code.');
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+  let best: { modules: Grid; score: number } | null = null;
+  for (let mask = 0; mask < MASKS.length; mask += 1) {
+    const symbol = createSymbol(version);
+    drawFormatBits(symbol, mask);
+    placeCodewords(symbol, codewords);
+    applyMask(symbol, mask);
+    const score = penalty(symbol.modules);
+    if (!best || score < best.score) best = { modules: symbol.modules, score };
+  }
+  return (best as { modules: Grid }).modules;
+}
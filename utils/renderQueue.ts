@@ -0,0 +1,76 @@
+import { zipSync } from 'fflate';
+import type { RenderMode } from '../components/VideoCanvas';
+import { slugify } from './files';
+import { CONTAINER_EXTENSIONS, containerFromMimeType, type VideoContainer } from './frameEncoder';
+import { createId } from './ids';
+import { findResolutionPreset, type Resolution } from './layout';
+import type { LocaleCode } from './locales';
+import type { ProjectDocument } from './project';
+
+export type RenderJobStatus = 'queued' | 'rendering' | 'complete' | 'failed' | 'cancelled';
+
+export type RenderJobResult = {
+  blob: Blob;
+  mimeType: string;
+  url: string;
+};
+
+// A job renders a snapshot of the project taken when it was enqueued, so later edits do not leak in.
+export type RenderJob = {
+  id: string;
+  project: ProjectDocument;
+  container: VideoContainer;
+  mode: RenderMode;
+  locale: LocaleCode;
+  status: RenderJobStatus;
+  progress: number;
+  error: string | null;
+  result: RenderJobResult | null;
+};
+
+export function createRenderJob(
+  project: ProjectDocument,
+  resolution: Resolution,
+  container: VideoContainer,
+  mode: RenderMode,
+  locale: LocaleCode
+): RenderJob {
+  return {
+    id: createId('job'),
+    project: { ...project, settings: { ...project.settings, resolution } },
+    container,
+    mode,
+    locale,
+    status: 'queued',
+    progress: 0,
+    error: null,
+    result: null
+  };
+}
+
+export function describeRenderJob(job: RenderJob) {
+  const { resolution } = job.project.settings;
+  const size = findResolutionPreset(resolution)?.label ?? `${resolution.width}×${resolution.height}`;
+  return `${size} · ${job.container.toUpperCase()} · ${job.locale.toUpperCase()}`;
+}
+
+export function renderJobFilename(job: RenderJob) {
+  const { width, height } = job.project.settings.resolution;
+  const container = job.result ? containerFromMimeType(job.result.mimeType) : job.container;
+  const locale = job.locale === job.project.locales.base ? '' : `-${job.locale}`;
+  return `${slugify(job.project.name)}-${width}x${height}${locale}.${CONTAINER_EXTENSIONS[container]}`;
+}
+
+export async function zipRenderResults(jobs: RenderJob[]) {
+  const files: Record<string, Uint8Array> = {};
+  for (const job of jobs) {
+    if (!job.result) continue;
+    let filename = renderJobFilename(job);
+    for (let copy = 2; filename in files; copy += 1) {
+      filename = renderJobFilename(job).replace(/(\.\w+)$/, `-${copy}$1`);
+    }
+    files[filename] = new Uint8Array(await job.result.blob.arrayBuffer());
+  }
+  // Encoded video does not compress further, so store the entries as-is.
+  return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' });
+}
@@ -0,0 +1,48 @@
+import { INDEXED_DB_SUPPORT, TEMPLATE_STORE, withStore } from './database';
+import { validateProject } from './project';
+import type { ReelTemplate } from './templates';
+
+type StoredTemplate = Omit<ReelTemplate, 'project'> & {
+  savedAt: number;
+  project: unknown;
+};
+
+// A saved template that no longer validates, listed so it can be reported and deleted.
+export type UnreadableTemplate = {
+  id: string;
+  name: string;
+  reason: string;
+};
+
+export async function saveTemplate(template: ReelTemplate) {
+  if (!INDEXED_DB_SUPPORT) return;
+  await withStore(TEMPLATE_STORE, 'readwrite', (store) => store.put({ ...template, savedAt: Date.now() }));
+}
+
+// Saved projects go through the same migrations as project files, so templates saved by an older studio
+// still open. One that no longer validates is returned separately rather than failing the whole gallery.
+export async function listTemplates(): Promise<{
+  templates: ReelTemplate[];
+  unreadable: UnreadableTemplate[];
+}> {
+  if (!INDEXED_DB_SUPPORT) return { templates: [], unreadable: [] };
+  const records = await withStore<StoredTemplate[]>(TEMPLATE_STORE, 'readonly', (store) => store.getAll());
+  const templates: ReelTemplate[] = [];
+  const unreadable: UnreadableTemplate[] = [];
+  records
+    .sort((left, right) => left.savedAt - right.savedAt)
+    .forEach(({ savedAt: _savedAt, project, ...template }) => {
+      try {
+        templates.push({ ...template, project: validateProject(project) });
+      } catch (caught) {
+        const reason = caught instanceof Error ? caught.message : 'It could not be read.';
+        unreadable.push({ id: template.id, name: template.name || 'Untitled template', reason });
+      }
+    });
+  return { templates, unreadable };
+}
+
+export async function deleteTemplate(id: string) {
+  if (!INDEXED_DB_SUPPORT) return;
+  await withStore(TEMPLATE_STORE, 'readwrite', (store) => store.delete(id));
+}
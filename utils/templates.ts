@@ -0,0 +1,351 @@
+import type { SceneConfig } from '../components/VideoCanvas';
+import { DEFAULT_AUDIO } from './audioMix';
+import { DEFAULT_CAPTIONS } from './captions';
+import { DEFAULT_GRADE, GRADE_PRESETS, type ColorGrade } from './grading';
+import { createId } from './ids';
+import { DEFAULT_LOCALES } from './locales';
+import type { SceneMedia } from './media';
+import { createOverlay, type OverlayType, type SceneOverlay } from './overlays';
+import { createProject, type ProjectDocument, type ProjectSettings } from './project';
+import { createDefaultTextLayers, type TextStyle } from './textLayers';
+import { DEFAULT_THEME, findThemePreset } from './themes';
+
+// A reusable reel: a complete project whose scenes are slots. Their timing, transitions, motion, text layers
+// and overlays carry over, while their media and copy are placeholders to be replaced.
+export type ReelTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  project: ProjectDocument;
+};
+
+// New media and copy for one scene slot, in slot order. Copy is keyed by text style; slots without a fill
+// keep the template's placeholders.
+export type TemplateFill = {
+  media?: SceneMedia;
+  copy?: Partial<Record<TextStyle, string>>;
+};
+
+type SlotDefinition = Omit<SceneConfig, 'id' | 'layers'> & {
+  copy: Partial<Record<TextStyle, string>>;
+};
+
+function gradient(from: string, to: string, angle = 135): SceneMedia {
+  return { type: 'gradient', from, to, angle };
+}
+
+function overlay(type: OverlayType, patch: Partial<SceneOverlay>) {
+  return { ...createOverlay(type), ...patch } as SceneOverlay;
+}
+
+function defineTemplate({
+  id,
+  name,
+  description,
+  projectName = name,
+  settings,
+  themeId,
+  grade = DEFAULT_GRADE,
+  slots
+}: {
+  id: string;
+  name: string;
+  description: string;
+  projectName?: string;
+  settings: ProjectSettings;
+  themeId: string;
+  grade?: ColorGrade;
+  slots: SlotDefinition[];
+}): ReelTemplate {
+  const theme = findThemePreset(themeId) ?? DEFAULT_THEME;
+  const scenes = slots.map(({ copy, ...slot }, index): SceneConfig => ({
+    ...slot,
+    id: `${id}-${index + 1}`,
+    layers: createDefaultTextLayers({
+      kicker: theme.kicker,
+      title: copy.title ?? '',
+      subtitle: copy.subtitle ?? '',
+      description: copy.description ?? ''
+    })
+  }));
+  return {
+    id,
+    name,
+    description,
+    project: createProject(
+      projectName,
+      scenes,
+      settings,
+      DEFAULT_AUDIO,
+      theme,
+      DEFAULT_CAPTIONS,
+      DEFAULT_LOCALES,
+      [],
+      grade
+    )
+  };
+}
+
+const LANDSCAPE_720P = { width: 1280, height: 720 };
+
+export const BUILT_IN_TEMPLATES: ReelTemplate[] = [
+  defineTemplate({
+    id: 'city-tour',
+    name: 'City tour',
+    description: 'Five 6-second landmark scenes with crossfades, wipes and a dip to black.',
+    // The studio opens on this reel.
+    projectName: 'Dubai Tourism Featurette',
+    settings: { fps: 30, resolution: LANDSCAPE_720P, duration: 30 },
+    themeId: 'visit-dubai',
+    slots: [
+      {
+        title: 'Sunrise at Burj Khalifa',
+        media: { type: 'image', src: '/assets/burj-khalifa.jpg' },
+        copy: {
+          title: 'Sunrise at Burj Khalifa',
+          subtitle: 'Witness the city ignite in gold from the tallest tower on Earth.',
+          description: 'Capture breathtaking vistas as dawn paints the Dubai skyline in amber hues.'
+        },
+        duration: 6
+      },
+      {
+        title: 'Arabian Desert Dunes',
+        media: { type: 'image', src: '/assets/desert-safari.jpg' },
+        copy: {
+          title: 'Arabian Desert Dunes',
+          subtitle: 'Ride the winds across endless dunes bathed in desert light.',
+          description: 'Feel the adrenaline of a desert safari, camel treks, and sandboarding adventures.'
+        },
+        duration: 6,
+        transition: { type: 'crossfade', duration: 1 }
+      },
+      {
+        title: 'Dubai Creek Heritage',
+        media: { type: 'image', src: '/assets/dubai-creek.jpg' },
+        copy: {
+          title: 'Dubai Creek Heritage',
+          subtitle: 'Sail past souks and wind towers where tradition meets modern flair.',
+          description: 'Glide along the creek on an abra as spices and perfumes fill the evening air.'
+        },
+        duration: 6,
+        transition: { type: 'wipe-left', duration: 0.8 }
+      },
+      {
+        title: 'Iconic Palm Jumeirah',
+        media: { type: 'image', src: '/assets/palm-jumeirah.jpg' },
+        copy: {
+          title: 'Iconic Palm Jumeirah',
+          subtitle: 'Discover man-made marvels framed by turquoise Arabian Gulf waters.',
+          description: 'Luxury resorts, skydiving thrills, and oceanside dining define the Palm experience.'
+        },
+        duration: 6,
+        transition: { type: 'zoom-through', duration: 1 }
+      },
+      {
+        title: 'Dubai Marina Nights',
+        media: { type: 'image', src: '/assets/dubai-marina.jpg' },
+        copy: {
+          title: 'Dubai Marina Nights',
+          subtitle: 'Immerse yourself in neon reflections and waterfront glamour.',
+          description: 'Indulge in rooftop lounges, yacht cruises, and Michelin-star cuisine after dark.'
+        },
+        duration: 6,
+        transition: { type: 'dip-to-black', duration: 1.2 }
+      }
+    ]
+  }),
+  defineTemplate({
+    id: 'hotel-promo',
+    name: 'Hotel promo',
+    description: 'Four 5-second scenes from arrival to a booking end card with a QR code.',
+    settings: { fps: 30, resolution: LANDSCAPE_720P, duration: null },
+    themeId: 'midnight-luxe',
+    grade: GRADE_PRESETS['golden-hour'],
+    slots: [
+      {
+        title: 'Arrival',
+        media: gradient('#1e293b', '#78350f'),
+        copy: { title: 'Your Hotel Name', subtitle: 'Where the view and the welcome meet.' },
+        duration: 5
+      },
+      {
+        title: 'Rooms & suites',
+        media: gradient('#312e81', '#0f172a'),
+        copy: {
+          title: 'Rooms & Suites',
+          description: 'Describe the rooms, the views and what sets them apart.'
+        },
+        duration: 5,
+        transition: { type: 'crossfade', duration: 1 },
+        overlays: [overlay('badge', { text: 'Rates from 499' })]
+      },
+      {
+        title: 'Dining',
+        media: gradient('#7c2d12', '#1c1917'),
+        copy: { title: 'Dining', description: 'Name the signature restaurant and the dish guests remember.' },
+        duration: 5,
+        transition: { type: 'crossfade', duration: 1 }
+      },
+      {
+        title: 'Book',
+        media: gradient('#0f172a', '#312e81'),
+        copy: {},
+        duration: 5,
+        transition: { type: 'dip-to-black', duration: 1 },
+        overlays: [overlay('end-card', { headline: 'Book your stay', url: 'https://example.com/book' })]
+      }
+    ]
+  }),
+  defineTemplate({
+    id: 'event-teaser',
+    name: 'Event teaser',
+    description: 'A vertical 15-second teaser: five 3-second cuts ending on a ticket link.',
+    settings: { fps: 30, resolution: { width: 1080, height: 1920 }, duration: 15 },
+    themeId: 'minimal-mono',
+    slots: [
+      {
+        title: 'Hook',
+        media: gradient('#111827', '#4c1d95', 160),
+        copy: { title: 'Event Name' },
+        duration: 3
+      },
+      {
+        title: 'Date',
+        media: gradient('#4c1d95', '#be185d', 160),
+        copy: { title: 'Date · Time' },
+        duration: 3,
+        transition: { type: 'push-left', duration: 0.4 }
+      },
+      {
+        title: 'Venue',
+        media: gradient('#be185d', '#111827', 160),
+        copy: {},
+        duration: 3,
+        transition: { type: 'push-left', duration: 0.4 },
+        overlays: [overlay('lower-third', { title: 'Venue name', subtitle: 'City' })]
+      },
+      {
+        title: 'Highlight',
+        media: gradient('#111827', '#0e7490', 160),
+        copy: { title: 'Headline act or highlight' },
+        duration: 3,
+        transition: { type: 'zoom-through', duration: 0.5 }
+      },
+      {
+        title: 'Tickets',
+        media: gradient('#0e7490', '#111827', 160),
+        copy: {},
+        duration: 3,
+        transition: { type: 'dip-to-black', duration: 0.6 },
+        overlays: [overlay('end-card', { headline: 'Get tickets', url: 'https://example.com/tickets' })]
+      }
+    ]
+  }),
+  defineTemplate({
+    id: 'bumper-15',
+    name: '15-second bumper',
+    description: 'Three 5-second scenes with crossfades, closing on a link without a QR code.',
+    settings: { fps: 30, resolution: LANDSCAPE_720P, duration: 15 },
+    themeId: 'coastal-breeze',
+    slots: [
+      {
+        title: 'Open',
+        media: gradient('#0ea5e9', '#0f766e'),
+        copy: { title: 'One-line promise', subtitle: 'A short supporting line.' },
+        duration: 5
+      },
+      {
+        title: 'Proof',
+        media: gradient('#0f766e', '#1e3a8a'),
+        copy: { title: 'The reason to go' },
+        duration: 5,
+        transition: { type: 'crossfade', duration: 0.8 }
+      },
+      {
+        title: 'Close',
+        media: gradient('#1e3a8a', '#0ea5e9'),
+        copy: {},
+        duration: 5,
+        transition: { type: 'crossfade', duration: 0.8 },
+        overlays: [overlay('end-card', { headline: 'Plan your trip', url: 'example.com', qrCode: false })]
+      }
+    ]
+  }),
+  defineTemplate({
+    id: 'bumper-6',
+    name: '6-second bumper',
+    description: 'Two 3-second scenes: one message, then the brand.',
+    settings: { fps: 30, resolution: LANDSCAPE_720P, duration: 6 },
+    themeId: 'coastal-breeze',
+    slots: [
+      {
+        title: 'Message',
+        media: gradient('#0ea5e9', '#312e81'),
+        copy: { title: 'One message' },
+        duration: 3
+      },
+      {
+        title: 'Brand',
+        media: { type: 'color', color: '#0f172a' },
+        copy: { title: 'Brand name' },
+        duration: 3,
+        transition: { type: 'dip-to-black', duration: 0.6 }
+      }
+    ]
+  })
+];
+
+export function createTemplate(project: ProjectDocument, name: string, description: string): ReelTemplate {
+  return { id: createId('template'), name, description, project };
+}
+
+// Takes each scene's media and the first layer of each text style as copy, so an existing reel can be
+// poured into a template's timing and look. Kickers are left to follow the template's theme.
+export function templateFillsFrom(scenes: SceneConfig[]): TemplateFill[] {
+  return scenes.map(({ media, layers }) => {
+    const copy: Partial<Record<TextStyle, string>> = {};
+    layers.forEach((layer) => {
+      if (layer.style !== 'kicker') copy[layer.style] ??= layer.text;
+    });
+    return { media, copy };
+  });
+}
+
+// Scene, layer and overlay ids are regenerated so instances of one template never share ids.
+export function instantiateTemplate(
+  { project }: ReelTemplate,
+  fills: TemplateFill[] = [],
+  name = project.name
+): ProjectDocument {
+  const sceneIds = new Map<string, string>();
+  const scenes = project.scenes.map((scene, index): SceneConfig => {
+    const { media, copy = {} } = fills[index] ?? {};
+    const id = createId('scene');
+    sceneIds.set(scene.id, id);
+    return {
+      ...scene,
+      id,
+      media: media ?? scene.media,
+      layers: scene.layers.map((layer) => {
+        const text = copy[layer.style];
+        return text === undefined
+          ? { ...layer, id: createId('text') }
+          : { ...layer, id: createId('text'), text, translations: {} };
+      }),
+      ...(scene.overlays && {
+        overlays: scene.overlays.map((item) => ({ ...item, id: createId('overlay') }))
+      })
+    };
+  });
+  return {
+    ...project,
+    name,
+    scenes,
+    audio: {
+      ...project.audio,
+      tracks: project.audio.tracks.map((track) =>
+        track.sceneId ? { ...track, sceneId: sceneIds.get(track.sceneId) } : track
+      )
+    }
+  };
+}
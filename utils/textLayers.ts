@@ -0,0 +1,243 @@
+import { clamp } from './easing';
+import { createId } from './ids';
+import type { OverlayRect } from './layout';
+import { isRtlLocale, type LocaleCode } from './locales';
+import type { Theme } from './themes';
+
+export type TextStyle = 'kicker' | 'title' | 'subtitle' | 'description';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export type TextAnimationType = 'none' | 'fade' | 'slide-up' | 'slide-left' | 'typewriter';
+
+export type TextAnimation = {
+  type: TextAnimationType;
+  duration: number;
+};
+
+// Position and width are fractions of the safe area; `size` is in pixels at the 720p reference height.
+// `start`/`end` are seconds into the scene, with a null end holding the layer until the scene ends.
+export type TextLayer = {
+  id: string;
+  // Copy in the project's base locale; `translations` holds the other locales, falling back to `text`.
+  text: string;
+  translations: Partial<Record<LocaleCode, string>>;
+  style: TextStyle;
+  x: number;
+  y: number;
+  width: number;
+  align: TextAlign;
+  size: number;
+  maxLines: number | null;
+  font: string | null;
+  color: string | null;
+  start: number;
+  end: number | null;
+  enter: TextAnimation;
+  exit: TextAnimation;
+};
+
+export const TEXT_STYLE_LABELS: Record<TextStyle, string> = {
+  kicker: 'Kicker',
+  title: 'Title',
+  subtitle: 'Subtitle',
+  description: 'Description'
+};
+
+export const TEXT_ALIGN_LABELS: Record<TextAlign, string> = {
+  left: 'Left',
+  center: 'Centre',
+  right: 'Right'
+};
+
+export const TEXT_ANIMATION_LABELS: Record<TextAnimationType, string> = {
+  none: 'None',
+  fade: 'Fade',
+  'slide-up': 'Slide up',
+  'slide-left': 'Slide in from side',
+  typewriter: 'Typewriter'
+};
+
+const LINE_HEIGHT = 1.2;
+const SLIDE_DISTANCE = 40;
+const ELLIPSIS = '…';
+
+const MIRRORED_ALIGN: Record<TextAlign, TextAlign> = {
+  left: 'right',
+  center: 'center',
+  right: 'left'
+};
+
+const STYLE_DEFAULTS: Record<TextStyle, Pick<TextLayer, 'y' | 'size' | 'maxLines'>> = {
+  kicker: { y: 0.3, size: 48, maxLines: 1 },
+  title: { y: 0.4, size: 72, maxLines: 2 },
+  subtitle: { y: 0.7, size: 30, maxLines: 2 },
+  description: { y: 0.84, size: 22, maxLines: 2 }
+};
+
+export const DEFAULT_TEXT_ANIMATION: TextAnimation = { type: 'fade', duration: 0.75 };
+
+export function isTextStyle(value: unknown): value is TextStyle {
+  return typeof value === 'string' && Object.hasOwn(TEXT_STYLE_LABELS, value);
+}
+
+export function isTextAlign(value: unknown): value is TextAlign {
+  return typeof value === 'string' && Object.hasOwn(TEXT_ALIGN_LABELS, value);
+}
+
+export function isTextAnimationType(value: unknown): value is TextAnimationType {
+  return typeof value === 'string' && Object.hasOwn(TEXT_ANIMATION_LABELS, value);
+}
+
+export function createTextLayer(style: TextStyle, text = ''): TextLayer {
+  return {
+    id: createId('text'),
+    text,
+    translations: {},
+    style,
+    x: 0,
+    width: 1,
+    align: 'left',
+    font: null,
+    color: null,
+    start: 0,
+    end: null,
+    enter: DEFAULT_TEXT_ANIMATION,
+    exit: DEFAULT_TEXT_ANIMATION,
+    ...STYLE_DEFAULTS[style]
+  };
+}
+
+// The stacked kicker/title/subtitle/description block every scene used before layers existed.
+export function createDefaultTextLayers(copy: Record<TextStyle, string>) {
+  return (Object.keys(STYLE_DEFAULTS) as TextStyle[])
+    .filter((style) => copy[style].trim() !== '')
+    .map((style) => createTextLayer(style, copy[style]));
+}
+
+export function localizedText(layer: TextLayer, locale: LocaleCode) {
+  return layer.translations[locale]?.trim() ? (layer.translations[locale] as string) : layer.text;
+}
+
+function themeFont(theme: Theme, style: TextStyle) {
+  if (style === 'kicker') return theme.fonts.kicker;
+  if (style === 'title') return theme.fonts.title;
+  return theme.fonts.body;
+}
+
+// Breaks at word boundaries from Intl.Segmenter so scripts written without spaces (Chinese, Japanese, Thai)
+// still wrap; a single segment wider than the line is split between characters as a last resort.
+export function wrapLines(
+  context: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+  locale?: string
+) {
+  const segmenter =
+    typeof Intl !== 'undefined' && 'Segmenter' in Intl
+      ? new Intl.Segmenter(locale, { granularity: 'word' })
+      : null;
+  const fits = (candidate: string) => context.measureText(candidate.trimEnd()).width <= maxWidth;
+  const lines: string[] = [];
+
+  text.split('\n').forEach((paragraph) => {
+    const segments = segmenter
+      ? Array.from(segmenter.segment(paragraph), ({ segment }) => segment)
+      : paragraph.split(/(?<= )/);
+    let line = '';
+    segments.forEach((segment) => {
+      if (fits(`${line}${segment}`)) {
+        line = `${line}${segment}`;
+        return;
+      }
+      if (line.trim()) lines.push(line.trim());
+      line = segment.trimStart();
+      while (line.length > 1 && !fits(line)) {
+        let cut = line.length - 1;
+        while (cut > 1 && !fits(line.slice(0, cut))) cut -= 1;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    lines.push(line.trim());
+  });
+  return lines;
+}
+
+function truncateLines(
+  context: CanvasRenderingContext2D,
+  lines: string[],
+  maxLines: number | null,
+  maxWidth: number
+) {
+  if (maxLines === null || lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  let last = `${kept[maxLines - 1]} ${lines[maxLines]}`;
+  while (last.length > 0 && context.measureText(`${last}${ELLIPSIS}`).width > maxWidth) {
+    last = last.slice(0, -1);
+  }
+  kept[maxLines - 1] = `${last.trimEnd()}${ELLIPSIS}`;
+  return kept;
+}
+
+function animationProgress(animation: TextAnimation, elapsed: number, window: number) {
+  if (animation.type === 'none' || animation.duration <= 0) return 1;
+  return clamp(elapsed / Math.min(animation.duration, window / 2), 0, 1);
+}
+
+export function drawTextLayer(
+  context: CanvasRenderingContext2D,
+  layer: TextLayer,
+  theme: Theme,
+  safe: OverlayRect,
+  unit: number,
+  sceneElapsed: number,
+  sceneDuration: number,
+  locale: LocaleCode
+) {
+  const text = localizedText(layer, locale);
+  const end = Math.min(layer.end ?? sceneDuration, sceneDuration);
+  if (!text.trim() || sceneElapsed < layer.start || sceneElapsed >= end) return;
+
+  const window = end - layer.start;
+  const entering = animationProgress(layer.enter, sceneElapsed - layer.start, window);
+  const exiting = animationProgress(layer.exit, end - sceneElapsed, window);
+  const active = entering < 1 ? layer.enter : exiting < 1 ? layer.exit : null;
+  const amount = Math.min(entering, exiting);
+
+  const fontSize = layer.size * unit;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const maxWidth = safe.width * layer.width;
+  // Right-to-left locales mirror the layout so a layer placed at the reading start stays there.
+  const rtl = isRtlLocale(locale);
+  const align = rtl ? MIRRORED_ALIGN[layer.align] : layer.align;
+  let x = safe.x + safe.width * (rtl ? 1 - layer.x - layer.width : layer.x);
+  let y = safe.y + safe.height * layer.y;
+
+  context.save();
+  context.font = `${fontSize}px ${layer.font ?? themeFont(theme, layer.style)}`;
+  context.fillStyle = layer.color ?? theme.colors[layer.style];
+  context.direction = rtl ? 'rtl' : 'ltr';
+  context.textBaseline = 'top';
+  context.textAlign = align;
+  let lines = truncateLines(context, wrapLines(context, text, maxWidth, locale), layer.maxLines, maxWidth);
+
+  if (active?.type === 'fade' || active?.type === 'slide-up' || active?.type === 'slide-left') {
+    context.globalAlpha *= amount;
+  }
+  if (active?.type === 'slide-up') y += (1 - amount) * SLIDE_DISTANCE * unit;
+  if (active?.type === 'slide-left') x += (rtl ? 1 : -1) * (1 - amount) * SLIDE_DISTANCE * unit;
+  // Typewriter reveals whole characters across the wrapped block, so line breaks never shift mid-reveal.
+  if (active?.type === 'typewriter') {
+    let remaining = Math.floor(lines.join('').length * amount);
+    lines = lines.map((line) => {
+      const visible = line.slice(0, Math.max(0, remaining));
+      remaining -= line.length;
+      return visible;
+    });
+  }
+
+  const anchorX = align === 'center' ? x + maxWidth / 2 : align === 'right' ? x + maxWidth : x;
+  lines.forEach((line, index) => context.fillText(line, anchorX, y + index * lineHeight));
+  context.restore();
+}
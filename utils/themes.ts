@@ -0,0 +1,171 @@
+export type FrameStyle = 'inset' | 'corners' | 'none';
+
+export type LogoPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type Theme = {
+  id: string;
+  name: string;
+  kicker: string;
+  colors: {
+    kicker: string;
+    title: string;
+    subtitle: string;
+    description: string;
+    frameFill: string;
+    frameStroke: string;
+    progressTrack: string;
+    progressFill: string;
+    timecode: string;
+  };
+  fonts: {
+    kicker: string;
+    title: string;
+    body: string;
+  };
+  // Bottom-up scrim drawn over the image so the copy stays legible.
+  gradient: {
+    start: number;
+    stops: [string, string, string];
+  };
+  frame: {
+    style: FrameStyle;
+    inset: number;
+    lineWidth: number;
+  };
+  logo: {
+    src: string;
+    position: LogoPosition;
+    width: number;
+    opacity: number;
+  } | null;
+};
+
+export const FRAME_STYLE_LABELS: Record<FrameStyle, string> = {
+  inset: 'Inset panel',
+  corners: 'Corner brackets',
+  none: 'No frame'
+};
+
+export const LOGO_POSITION_LABELS: Record<LogoPosition, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right'
+};
+
+export const THEME_PRESETS: Theme[] = [
+  {
+    id: 'visit-dubai',
+    name: 'Visit Dubai',
+    kicker: 'Visit Dubai',
+    colors: {
+      kicker: 'rgba(250, 204, 21, 0.8)',
+      title: 'rgba(255, 255, 255, 0.92)',
+      subtitle: 'rgba(241, 245, 249, 0.75)',
+      description: 'rgba(148, 163, 184, 0.6)',
+      frameFill: 'rgba(255, 255, 255, 0.12)',
+      frameStroke: 'rgba(250, 204, 21, 0.45)',
+      progressTrack: 'rgba(255, 255, 255, 0.12)',
+      progressFill: 'rgba(250, 204, 21, 0.8)',
+      timecode: 'rgba(255, 255, 255, 0.65)'
+    },
+    fonts: {
+      kicker: '"Bebas Neue", "Inter", system-ui',
+      title: '"Playfair Display", "Inter", serif',
+      body: '"Inter", sans-serif'
+    },
+    gradient: {
+      start: 0.45,
+      stops: ['rgba(3, 7, 18, 0.05)', 'rgba(3, 7, 18, 0.65)', 'rgba(3, 7, 18, 0.92)']
+    },
+    frame: { style: 'inset', inset: 60, lineWidth: 2 },
+    logo: null
+  },
+  {
+    id: 'coastal-breeze',
+    name: 'Coastal Breeze',
+    kicker: 'Discover the Coast',
+    colors: {
+      kicker: 'rgba(125, 211, 252, 0.9)',
+      title: 'rgba(255, 255, 255, 0.95)',
+      subtitle: 'rgba(224, 242, 254, 0.8)',
+      description: 'rgba(186, 230, 253, 0.65)',
+      frameFill: 'rgba(14, 165, 233, 0.08)',
+      frameStroke: 'rgba(125, 211, 252, 0.55)',
+      progressTrack: 'rgba(255, 255, 255, 0.15)',
+      progressFill: 'rgba(56, 189, 248, 0.9)',
+      timecode: 'rgba(224, 242, 254, 0.7)'
+    },
+    fonts: {
+      kicker: '"Montserrat", "Inter", system-ui',
+      title: '"DM Serif Display", "Inter", serif',
+      body: '"Inter", sans-serif'
+    },
+    gradient: {
+      start: 0.4,
+      stops: ['rgba(8, 47, 73, 0)', 'rgba(8, 47, 73, 0.55)', 'rgba(8, 47, 73, 0.9)']
+    },
+    frame: { style: 'corners', inset: 48, lineWidth: 3 },
+    logo: null
+  },
+  {
+    id: 'midnight-luxe',
+    name: 'Midnight Luxe',
+    kicker: 'Exclusive Escapes',
+    colors: {
+      kicker: 'rgba(244, 114, 182, 0.85)',
+      title: 'rgba(250, 245, 255, 0.95)',
+      subtitle: 'rgba(233, 213, 255, 0.78)',
+      description: 'rgba(196, 181, 253, 0.6)',
+      frameFill: 'rgba(0, 0, 0, 0)',
+      frameStroke: 'rgba(244, 114, 182, 0.4)',
+      progressTrack: 'rgba(255, 255, 255, 0.1)',
+      progressFill: 'rgba(244, 114, 182, 0.85)',
+      timecode: 'rgba(233, 213, 255, 0.65)'
+    },
+    fonts: {
+      kicker: '"Cinzel", "Inter", serif',
+      title: '"Cormorant Garamond", "Playfair Display", serif',
+      body: '"Inter", sans-serif'
+    },
+    gradient: {
+      start: 0.35,
+      stops: ['rgba(24, 8, 38, 0.1)', 'rgba(24, 8, 38, 0.7)', 'rgba(10, 4, 18, 0.95)']
+    },
+    frame: { style: 'inset', inset: 40, lineWidth: 1 },
+    logo: null
+  },
+  {
+    id: 'minimal-mono',
+    name: 'Minimal Mono',
+    kicker: 'Travel Guide',
+    colors: {
+      kicker: 'rgba(255, 255, 255, 0.75)',
+      title: 'rgba(255, 255, 255, 1)',
+      subtitle: 'rgba(229, 231, 235, 0.8)',
+      description: 'rgba(209, 213, 219, 0.6)',
+      frameFill: 'rgba(0, 0, 0, 0)',
+      frameStroke: 'rgba(0, 0, 0, 0)',
+      progressTrack: 'rgba(255, 255, 255, 0.2)',
+      progressFill: 'rgba(255, 255, 255, 0.9)',
+      timecode: 'rgba(255, 255, 255, 0.7)'
+    },
+    fonts: {
+      kicker: '"Inter", system-ui',
+      title: '"Inter", system-ui',
+      body: '"Inter", sans-serif'
+    },
+    gradient: {
+      start: 0.5,
+      stops: ['rgba(0, 0, 0, 0)', 'rgba(0, 0, 0, 0.5)', 'rgba(0, 0, 0, 0.85)']
+    },
+    frame: { style: 'none', inset: 60, lineWidth: 2 },
+    logo: null
+  }
+];
+
+export const DEFAULT_THEME = THEME_PRESETS[0];
+
+export function findThemePreset(id: string) {
+  return THEME_PRESETS.find((theme) => theme.id === id);
+}
@@ -0,0 +1,51 @@
+import type { SceneConfig } from '../components/VideoCanvas';
+
+// Scenes play back to back, so every start time is derived from the durations before it.
+export type TimelineEntry = {
+  scene: SceneConfig;
+  index: number;
+  start: number;
+  end: number;
+};
+
+export type Timeline = {
+  entries: TimelineEntry[];
+  duration: number;
+  issues: string[];
+};
+
+const DURATION_TOLERANCE = 0.001;
+
+export function formatSeconds(seconds: number) {
+  return Number.isInteger(seconds) ? `${seconds}` : seconds.toFixed(1);
+}
+
+export function buildTimeline(scenes: SceneConfig[], declaredDuration: number | null = null): Timeline {
+  const issues: string[] = [];
+  const entries: TimelineEntry[] = [];
+  let start = 0;
+
+  scenes.forEach((scene, index) => {
+    if (!(scene.duration > 0)) {
+      issues.push(`Scene ${index + 1} (“${scene.title || 'Untitled scene'}”) needs a duration above 0s.`);
+    }
+    const duration = Math.max(0, scene.duration);
+    entries.push({ scene, index, start, end: start + duration });
+    start += duration;
+  });
+
+  if (entries.length === 0) issues.push('The reel needs at least one scene.');
+  if (declaredDuration !== null && Math.abs(declaredDuration - start) > DURATION_TOLERANCE) {
+    issues.push(
+      `Scenes add up to ${formatSeconds(start)}s but the reel length is set to ${formatSeconds(declaredDuration)}s. ` +
+        'Adjust scene durations or the reel length.'
+    );
+  }
+
+  return { entries, duration: start, issues };
+}
+
+// Times past the end resolve to the last scene so the final frame still has something to draw.
+export function findTimelineEntry(timeline: Timeline, time: number) {
+  return timeline.entries.find((entry) => time < entry.end) ?? timeline.entries[timeline.entries.length - 1];
+}
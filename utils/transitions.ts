@@ -0,0 +1,143 @@
+import { clamp, easeInOutCubic } from './easing';
+
+export type TransitionType =
+  | 'cut'
+  | 'crossfade'
+  | 'wipe-left'
+  | 'wipe-right'
+  | 'wipe-up'
+  | 'wipe-down'
+  | 'slide-left'
+  | 'slide-right'
+  | 'push-left'
+  | 'push-right'
+  | 'zoom-through'
+  | 'dip-to-black';
+
+export type SceneTransition = {
+  type: TransitionType;
+  duration: number;
+};
+
+type DrawLayer = (ctx: CanvasRenderingContext2D) => void;
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  cut: 'Hard cut',
+  crossfade: 'Crossfade',
+  'wipe-left': 'Wipe left',
+  'wipe-right': 'Wipe right',
+  'wipe-up': 'Wipe up',
+  'wipe-down': 'Wipe down',
+  'slide-left': 'Slide left',
+  'slide-right': 'Slide right',
+  'push-left': 'Push left',
+  'push-right': 'Push right',
+  'zoom-through': 'Zoom through',
+  'dip-to-black': 'Dip to black'
+};
+
+export const TRANSITION_TYPES = Object.keys(TRANSITION_LABELS) as TransitionType[];
+
+export const DEFAULT_TRANSITION: SceneTransition = { type: 'cut', duration: 0 };
+
+export function isTransitionType(value: unknown): value is TransitionType {
+  return typeof value === 'string' && Object.hasOwn(TRANSITION_LABELS, value);
+}
+
+// Transitions are centred on the scene boundary and may not outlast either neighbouring scene.
+export function effectiveTransitionDuration(
+  transition: SceneTransition | undefined,
+  outgoingDuration: number,
+  incomingDuration: number
+) {
+  if (!transition || transition.type === 'cut') return 0;
+  return clamp(transition.duration, 0, Math.min(outgoingDuration, incomingDuration));
+}
+
+function withLayer(ctx: CanvasRenderingContext2D, draw: DrawLayer, setup: () => void) {
+  ctx.save();
+  setup();
+  draw(ctx);
+  ctx.restore();
+}
+
+export function drawTransition(
+  ctx: CanvasRenderingContext2D,
+  type: TransitionType,
+  rawProgress: number,
+  drawOutgoing: DrawLayer,
+  drawIncoming: DrawLayer,
+  width: number,
+  height: number
+) {
+  const linear = clamp(rawProgress, 0, 1);
+  const progress = easeInOutCubic(linear);
+
+  switch (type) {
+    case 'cut':
+      (linear < 0.5 ? drawOutgoing : drawIncoming)(ctx);
+      return;
+    case 'crossfade':
+      drawOutgoing(ctx);
+      withLayer(ctx, drawIncoming, () => {
+        ctx.globalAlpha = linear;
+      });
+      return;
+    case 'wipe-left':
+    case 'wipe-right':
+    case 'wipe-up':
+    case 'wipe-down': {
+      drawOutgoing(ctx);
+      withLayer(ctx, drawIncoming, () => {
+        ctx.beginPath();
+        if (type === 'wipe-left') ctx.rect(width * (1 - progress), 0, width * progress, height);
+        if (type === 'wipe-right') ctx.rect(0, 0, width * progress, height);
+        if (type === 'wipe-up') ctx.rect(0, height * (1 - progress), width, height * progress);
+        if (type === 'wipe-down') ctx.rect(0, 0, width, height * progress);
+        ctx.clip();
+      });
+      return;
+    }
+    case 'slide-left':
+    case 'slide-right': {
+      const direction = type === 'slide-left' ? 1 : -1;
+      drawOutgoing(ctx);
+      withLayer(ctx, drawIncoming, () => {
+        ctx.translate(direction * width * (1 - progress), 0);
+      });
+      return;
+    }
+    case 'push-left':
+    case 'push-right': {
+      const direction = type === 'push-left' ? 1 : -1;
+      withLayer(ctx, drawOutgoing, () => {
+        ctx.translate(-direction * width * progress, 0);
+      });
+      withLayer(ctx, drawIncoming, () => {
+        ctx.translate(direction * width * (1 - progress), 0);
+      });
+      return;
+    }
+    case 'zoom-through': {
+      const scaleAround = (scale: number) => {
+        ctx.translate(width / 2, height / 2);
+        ctx.scale(scale, scale);
+        ctx.translate(-width / 2, -height / 2);
+      };
+      withLayer(ctx, drawOutgoing, () => scaleAround(1 + 0.6 * progress));
+      withLayer(ctx, drawIncoming, () => {
+        ctx.globalAlpha = progress;
+        scaleAround(1.35 - 0.35 * progress);
+      });
+      return;
+    }
+    case 'dip-to-black': {
+      (linear < 0.5 ? drawOutgoing : drawIncoming)(ctx);
+      ctx.save();
+      ctx.fillStyle = `rgba(0, 0, 0, ${1 - Math.abs(linear * 2 - 1)})`;
+      ctx.fillRect(0, 0, width, height);
+      ctx.restore();
+      return;
+    }
+  }
+}